@@ -0,0 +1,188 @@
+/**
+ * Benchmark of the grab point search, at large item counts.
+ *
+ * Compares, per frame, with two interactors searching for the closest item in reach:
+ * - `linear`: Every item tested, allocating its position, i.e., the original `Interactor` search
+ * - `rebuild`: A spatial hash cleared and filled again every frame
+ * - `registry`: A spatial registry, only re-indexing the moving items
+ *
+ * Each search result is checked against the linear search.
+ *
+ * Run with `npm run bench`.
+ */
+import {vec3} from 'gl-matrix';
+
+import {SpatialHash} from '../dist/utils/spatial-hash.js';
+import {SpatialRegistry} from '../dist/utils/spatial-registry.js';
+
+const Counts = [1000, 10000, 100000];
+/** Fraction of the items moving every frame, e.g., grabbed or thrown objects. */
+const MovingRatio = 0.01;
+const Frames = 120;
+const WarmupFrames = 10;
+const CellSize = 0.5;
+const Reach = 0.3;
+/** Side, in **meters**, of the cube the items are spread in. */
+const WorldSize = 50;
+
+/** Deterministic random numbers, for comparable runs. */
+function random(seed) {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function createItems(count, rand) {
+    const items = new Array(count);
+    for (let i = 0; i < count; ++i) {
+        items[i] = {
+            position: vec3.fromValues(rand() * WorldSize, rand() * 2, rand() * WorldSize),
+        };
+    }
+    return items;
+}
+
+function move(items, moving, frame) {
+    for (let i = 0; i < moving; ++i) {
+        items[i].position[1] = 1 + Math.sin(frame * 0.1 + i);
+    }
+}
+
+function measure(run) {
+    for (let frame = 0; frame < WarmupFrames; ++frame) {
+        run(frame);
+    }
+    const start = performance.now();
+    for (let frame = 0; frame < Frames; ++frame) {
+        run(frame);
+    }
+    return (performance.now() - start) / Frames;
+}
+
+/** Hands position, moving every frame like tracked controllers. */
+const hands = [vec3.create(), vec3.create()];
+function moveHands(frame) {
+    vec3.set(hands[0], 10 + Math.sin(frame * 0.05), 1, 10);
+    vec3.set(hands[1], 10.5, 1, 10 + Math.cos(frame * 0.05));
+}
+
+/** Closest item in reach of a position, amongst candidates. */
+function closest(candidates, position) {
+    let minDistance = Reach * Reach;
+    let result = null;
+    for (const item of candidates) {
+        const distance = vec3.sqrDist(position, item.position);
+        if (distance < minDistance) {
+            minDistance = distance;
+            result = item;
+        }
+    }
+    return result;
+}
+
+/** Search of the original `Interactor`: every item is tested, and its position allocated. */
+function linearSearch(items, position) {
+    let minDistance = Number.POSITIVE_INFINITY;
+    let result = null;
+    for (let i = 0; i < items.length; ++i) {
+        /* `getPositionWorld()` without an output allocates */
+        const other = vec3.clone(items[i].position);
+        const distance = vec3.sqrDist(position, other);
+        if (distance < Reach * Reach && distance < minDistance) {
+            minDistance = distance;
+            result = items[i];
+        }
+    }
+    return result;
+}
+
+/** Results of the linear search, by frame and hand. */
+const expected = [];
+let mismatches = 0;
+
+function check(frame, hand, result) {
+    const index = frame * hands.length + hand;
+    if (expected[index] === undefined) {
+        expected[index] = result?.index ?? -1;
+    } else if (expected[index] !== (result?.index ?? -1)) {
+        ++mismatches;
+    }
+}
+
+function search(frame, find) {
+    moveHands(frame);
+    for (let h = 0; h < hands.length; ++h) {
+        check(frame, h, find(hands[h]));
+    }
+}
+
+const out = [];
+
+console.log(
+    'items\tlinear (ms/frame)\trebuild (ms/frame)\tregistry (ms/frame)\tspeedup vs linear'
+);
+for (const count of Counts) {
+    const moving = Math.ceil(count * MovingRatio);
+    expected.length = 0;
+
+    const linearItems = createItems(count, random(count));
+    linearItems.forEach((item, i) => (item.index = i));
+    const linear = measure((frame) => {
+        move(linearItems, moving, frame);
+        search(frame, (hand) => linearSearch(linearItems, hand));
+    });
+
+    const rebuildItems = createItems(count, random(count));
+    rebuildItems.forEach((item, i) => (item.index = i));
+    const hash = new SpatialHash(CellSize);
+    const rebuild = measure((frame) => {
+        move(rebuildItems, moving, frame);
+        hash.clear();
+        for (const item of rebuildItems) {
+            hash.insert(item, item.position);
+        }
+        search(frame, (hand) => {
+            const result = closest(hash.query(out, hand, Reach), hand);
+            out.length = 0;
+            return result;
+        });
+    });
+
+    const registryItems = createItems(count, random(count));
+    registryItems.forEach((item, i) => (item.index = i));
+    const registry = new SpatialRegistry({
+        cellSize: CellSize,
+        maxIndexedReach: 1.0,
+        position: (item, o) => vec3.copy(o, item.position),
+        reach: () => Reach,
+    });
+    for (const item of registryItems) {
+        registry.add(item);
+    }
+    const incremental = measure((frame) => {
+        move(registryItems, moving, frame);
+        for (let i = 0; i < moving; ++i) {
+            registry.wake(registryItems[i]);
+        }
+        registry.invalidate();
+        search(frame, (hand) => {
+            const result = closest(registry.query(out, hand), hand);
+            out.length = 0;
+            return result;
+        });
+    });
+
+    console.log(
+        `${count}\t${linear.toFixed(3)}\t\t\t${rebuild.toFixed(
+            3
+        )}\t\t\t${incremental.toFixed(3)}\t\t\t${(linear / incremental).toFixed(1)}x`
+    );
+}
+
+if (mismatches > 0) {
+    console.error(`${mismatches} searches differ from the linear search`);
+    process.exitCode = 1;
+}
@@ -1,5 +1,6 @@
 import {Component, Emitter, InputComponent, MeshComponent, Property} from '@wonderlandengine/api';
 import {CursorTarget, HowlerAudioSource} from '@wonderlandengine/components';
+import {Pressable} from 'wle-interaction';
 
 /**
  * Helper function to trigger haptic feedback pulse.
@@ -20,12 +21,13 @@ export function hapticFeedback(object, strength, duration) {
 /**
  * Button component.
  *
- * Shows a 'hoverMaterial' on cursor hover, moves backward on cursor down,
- * returns to its position on cursor up, plays click/unclick sounds and haptic
- * feedback on hover.
+ * Shows a 'hoverMaterial' on cursor hover, and plays click/unclick sounds
+ * once pressed and released.
  *
- * Use `target.onClick.add(() => {})` on the `cursor-target` component used
- * with the button to define the button's action.
+ * The button is a `pressable`, pressed by the `poke-interactor` of the hands
+ * and controllers. Cursor clicks press it as well, using the cursor as poker.
+ *
+ * Use `button.onPressed.add(() => {})` to define the button's action.
  *
  * Supports interaction with `finger-cursor` component for hand tracking.
  */
@@ -41,17 +43,18 @@ export class ButtonComponent extends Component {
     static onRegister(engine) {
         engine.registerComponent(HowlerAudioSource);
         engine.registerComponent(CursorTarget);
+        engine.registerComponent(Pressable);
     }
 
-    /* Position to return to when "unpressing" the button */
-    returnPos = new Float32Array(3);
-
     onPressed = new Emitter();
 
     start() {
         this.mesh = this.buttonMeshObject.getComponent(MeshComponent);
         this.defaultMaterial = this.mesh.material;
-        this.buttonMeshObject.getTranslationLocal(this.returnPos);
+
+        this.pressable =
+            this.object.getComponent(Pressable) ||
+            this.object.addComponent(Pressable, {button: this.buttonMeshObject});
 
         this.target =
             this.object.getComponent(CursorTarget) ||
@@ -68,6 +71,8 @@ export class ButtonComponent extends Component {
     }
 
     onActivate() {
+        this.pressable.onPress.add(this.onPress);
+        this.pressable.onRelease.add(this.onRelease);
         this.target.onHover.add(this.onHover);
         this.target.onUnhover.add(this.onUnhover);
         this.target.onDown.add(this.onDown);
@@ -75,12 +80,25 @@ export class ButtonComponent extends Component {
     }
 
     onDeactivate() {
+        this.pressable.onPress.remove(this.onPress);
+        this.pressable.onRelease.remove(this.onRelease);
         this.target.onHover.remove(this.onHover);
         this.target.onUnhover.remove(this.onUnhover);
         this.target.onDown.remove(this.onDown);
         this.target.onUp.remove(this.onUp);
     }
 
+    /* Called by 'pressable' */
+    onPress = () => {
+        this.soundClick.play();
+    }
+
+    /* Called by 'pressable' */
+    onRelease = () => {
+        this.soundUnClick.play();
+        this.onPressed.notify();
+    }
+
     /* Called by 'cursor-target' */
     onHover = (_, cursor) => {
         this.mesh.material = this.hoverMaterial;
@@ -93,17 +111,16 @@ export class ButtonComponent extends Component {
 
     /* Called by 'cursor-target' */
     onDown = (_, cursor) => {
-        this.soundClick.play();
-        this.buttonMeshObject.translate([0.0, -0.1, 0.0]);
+        /* Poke down to the press threshold, deeper pokes are rejected */
+        const pressable = this.pressable;
+        pressable.setPoke(cursor, pressable.pressThreshold * pressable.travel);
         hapticFeedback(cursor.object, 1.0, 20);
     }
 
     /* Called by 'cursor-target' */
     onUp = (_, cursor) => {
-        this.soundUnClick.play();
-        this.buttonMeshObject.setTranslationLocal(this.returnPos);
+        this.pressable.setPoke(cursor, -1.0);
         hapticFeedback(cursor.object, 0.7, 20);
-        this.onPressed?.notify();
     }
 
     /* Called by 'cursor-target' */
@@ -22,6 +22,8 @@ import {VrModeActiveSwitch} from '@wonderlandengine/components';
 import {GrabPoint} from 'wle-interaction';
 import {Grabbable} from 'wle-interaction';
 import {Interactor} from 'wle-interaction';
+import {PokeInteractor} from 'wle-interaction';
+import {Pressable} from 'wle-interaction';
 import {ButtonComponent} from './button.js';
 import {GameMananger} from './game-manager.js';
 /* wle:auto-imports:end */
@@ -100,6 +102,8 @@ engine.registerComponent(VrModeActiveSwitch);
 engine.registerComponent(GrabPoint);
 engine.registerComponent(Grabbable);
 engine.registerComponent(Interactor);
+engine.registerComponent(PokeInteractor);
+engine.registerComponent(Pressable);
 engine.registerComponent(ButtonComponent);
 engine.registerComponent(GameMananger);
 /* wle:auto-register:end */
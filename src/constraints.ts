@@ -1,7 +1,9 @@
 import {Component, property} from '@wonderlandengine/api';
-import {quat, vec3} from 'gl-matrix';
-import {toDegree} from './utils/math.js';
-import {TempVec3} from './internal-constants.js';
+import {mat3, quat, vec3} from 'gl-matrix';
+import {swingTwist, toDegree, toRad} from './utils/math.js';
+import {enumStringKeys} from './utils/wle.js';
+import {TempQuat, TempVec3} from './internal-constants.js';
+import {PI_OVER_2} from './constants.js';
 
 function initializeBounds(min: vec3, max: vec3, outMin: vec3, outMax: vec3) {
     vec3.set(
@@ -26,6 +28,9 @@ function initializeBounds(min: vec3, max: vec3, outMin: vec3, outMax: vec3) {
 
 /**
  * Translation constraint components for **local** position.
+ *
+ * @note While the object is grabbed, the constraint is applied by
+ * the {@link Grabbable} when computing the grabbed transform.
  */
 export class TranslationConstraint extends Component {
     static TypeName = 'translation-constraint';
@@ -60,59 +65,175 @@ export class TranslationConstraint extends Component {
     @property.vector3(-1, -1, -1)
     max!: Float32Array;
 
+    /** Component applying the constraint, e.g., a grabbable. */
+    private _managedBy: Component | null = null;
+
     /** @override */
     update(): void {
+        if (this._managedBy) {
+            return;
+        }
+        const pos = this.object.getPositionLocal(TempVec3.get());
+        this.object.setPositionLocal(this.constrain(pos, pos));
+        TempVec3.free();
+    }
+
+    /**
+     * Set the component applying this constraint, e.g., a grabbable.
+     *
+     * While managed, the constraint doesn't clamp the transform on its own.
+     *
+     * @note Automatically called by {@link Grabbable} while grabbed.
+     *
+     * @param owner The managing component, `null` to stop managing.
+     */
+    setManagedBy(owner: Component | null) {
+        this._managedBy = owner;
+    }
+
+    /** Component applying this constraint, `null` if none. */
+    get managedBy(): Component | null {
+        return this._managedBy;
+    }
+
+    /**
+     * Constrain a position.
+     *
+     * @note The output can alias the input.
+     *
+     * @param out The destination position.
+     * @param position The position to constrain, in **local space**.
+     * @returns The `out` parameter.
+     */
+    constrain(out: vec3, position: vec3): vec3 {
         const min = TempVec3.get();
         const max = TempVec3.get();
         initializeBounds(this.min, this.max, min, max);
 
-        const pos = this.object.getPositionLocal(TempVec3.get());
-        vec3.min(pos, pos, max);
-        vec3.max(pos, pos, min);
-        this.object.setPositionLocal(pos);
+        vec3.min(out, position, max);
+        vec3.max(out, out, min);
 
-        TempVec3.free(3);
+        TempVec3.free(2);
+        return out;
     }
 }
 
-function getEulerFromQuat(out: vec3, q: quat) {
-    const [x, y, z, w] = q;
+/**
+ * Type of rotation constraint.
+ */
+export enum RotationConstraintType {
+    /** Limit each euler angle, decomposed using {@link RotationConstraint.order}. */
+    Euler = 0,
+    /** Rotate around {@link RotationConstraint.axis} only, e.g., a lever or a door. */
+    Hinge,
+    /**
+     * Limit the swing of {@link RotationConstraint.axis} to a cone, and the twist
+     * around it, e.g., a joystick.
+     */
+    Cone,
+}
+/** List of string keys for {@link RotationConstraintType}. */
+export const RotationConstraintTypeNames = enumStringKeys(RotationConstraintType);
+
+/**
+ * Order in which the euler angles are applied.
+ *
+ * For instance, {@link EulerOrder.ZYX} composes the rotation as `z * y * x`,
+ * i.e., the x rotation is applied first.
+ */
+export enum EulerOrder {
+    XYZ = 0,
+    XZY,
+    YXZ,
+    YZX,
+    ZXY,
+    ZYX,
+}
+/** List of string keys for {@link EulerOrder}. */
+export const EulerOrderNames = enumStringKeys(EulerOrder);
 
-    // Roll (x-axis rotation)
-    const sinr_cosp = 2 * (w * x + y * z);
-    const cosr_cosp = 1 - 2 * (x * x + y * y);
-    const roll = Math.atan2(sinr_cosp, cosr_cosp);
+/** Axis indices of each {@link EulerOrder}, from left to right. */
+const EulerOrderAxes = [
+    [0, 1, 2],
+    [0, 2, 1],
+    [1, 0, 2],
+    [1, 2, 0],
+    [2, 0, 1],
+    [2, 1, 0],
+];
 
-    // Pitch (y-axis rotation)
-    const sinp = 2 * (w * y - z * x);
-    let pitch;
-    if (Math.abs(sinp) >= 1) {
-        pitch = (Math.sign(sinp) * Math.PI) / 2; // use 90 degrees if out of range
-    } else {
-        pitch = Math.asin(sinp);
-    }
+/** gl-matrix name of each {@link EulerOrder}. */
+const EulerOrderGl = ['xyz', 'xzy', 'yxz', 'yzx', 'zxy', 'zyx'] as const;
 
-    // Yaw (z-axis rotation)
-    const siny_cosp = 2 * (w * z + x * y);
-    const cosy_cosp = 1 - 2 * (y * y + z * z);
-    const yaw = Math.atan2(siny_cosp, cosy_cosp);
+/** Temporaries. */
+const _matrix = mat3.create();
 
-    out[0] = roll;
-    out[1] = pitch;
-    out[2] = yaw;
+/**
+ * Decompose a rotation into euler angles.
+ *
+ * @param out The destination angles, in **radians**.
+ * @param q The rotation to decompose.
+ * @param order The order in which the angles are composed.
+ * @returns The `out` parameter.
+ */
+export function getEulerFromQuat(out: vec3, q: quat, order = EulerOrder.ZYX) {
+    /* The rotation is `R = Ri * Rj * Rk`, with `i`, `j`, and `k` the axes in order */
+    const [i, j, k] = EulerOrderAxes[order];
+    const parity = (j - i + 3) % 3 === 1 ? 1 : -1;
+
+    /* gl-matrix matrices are column-major */
+    const m = mat3.fromQuat(_matrix, q);
+    const at = (row: number, col: number) => m[col * 3 + row];
+
+    const sin = parity * at(i, k);
+    if (Math.abs(sin) < 0.999999) {
+        out[i] = Math.atan2(-parity * at(j, k), at(k, k));
+        out[j] = Math.asin(sin);
+        out[k] = Math.atan2(-parity * at(i, j), at(i, i));
+    } else {
+        /* Gimbal lock: only the sum / difference of `i` and `k` is defined */
+        out[i] = Math.atan2(parity * at(k, j), at(j, j));
+        out[j] = Math.sign(sin) * PI_OVER_2;
+        out[k] = 0.0;
+    }
     return out;
 }
 
 /**
- * Rotation constraint components for **local** position.
+ * Rotation constraint components for **local** rotation.
+ *
+ * The constraint is expressed relative to the identity rotation,
+ * i.e., relative to the parent space.
  *
- * @note This component currently decomposes the rotation into euler angles,
- * which might create glimbal lock. In addition, the yaw/pitch/roll order is
- * currently not exposed.
+ * - {@link RotationConstraintType.Euler}: Limit each euler angle, with a selectable {@link order}
+ * - {@link RotationConstraintType.Hinge}: Single degree of freedom around {@link axis},
+ *   in the range [{@link minAngle}, {@link maxAngle}]
+ * - {@link RotationConstraintType.Cone}: Limit the swing of {@link axis} to {@link coneAngle},
+ *   and the twist around it in the range [{@link minAngle}, {@link maxAngle}]
+ *
+ * Hinge and cone constraints use a swing-twist decomposition, and don't
+ * suffer from gimbal lock.
+ *
+ * @note While the object is grabbed, the constraint is applied by
+ * the {@link Grabbable} when computing the grabbed transform.
  */
 export class RotationConstraint extends Component {
     static TypeName = 'rotation-constraint';
 
+    /** Type of constraint, defaults to {@link RotationConstraintType.Euler}. */
+    @property.enum(RotationConstraintTypeNames, RotationConstraintType.Euler)
+    constraintType = RotationConstraintType.Euler;
+
+    /* Euler properties */
+
+    /**
+     * Order used to decompose the rotation into euler angles.
+     *
+     * @note Only used with {@link RotationConstraintType.Euler}.
+     */
+    @property.enum(EulerOrderNames, EulerOrder.ZYX)
+    order = EulerOrder.ZYX;
+
     @property.bool(false)
     lockX = false;
 
@@ -152,6 +273,43 @@ export class RotationConstraint extends Component {
     @property.vector3()
     max!: Float32Array;
 
+    /* Hinge & cone properties */
+
+    /**
+     * Hinge axis, or cone axis, in **local space**.
+     *
+     * @note Doesn't need to be normalized.
+     */
+    @property.vector3(0, 1, 0)
+    axis!: Float32Array;
+
+    /**
+     * Minimum twist angle around {@link axis}, in **degrees**.
+     *
+     * @note To disable the twist limit, use a value larger than {@link maxAngle}.
+     */
+    @property.float(-45)
+    minAngle = -45;
+
+    /**
+     * Maximum twist angle around {@link axis}, in **degrees**.
+     *
+     * @note To disable the twist limit, use a value smaller than {@link minAngle}.
+     */
+    @property.float(45)
+    maxAngle = 45;
+
+    /**
+     * Maximum angle, in **degrees**, between {@link axis} and its rotated counterpart.
+     *
+     * @note Only used with {@link RotationConstraintType.Cone}.
+     */
+    @property.float(30)
+    coneAngle = 30;
+
+    /** Component applying the constraint, e.g., a grabbable. */
+    private _managedBy: Component | null = null;
+
     private _locked = [false, false, false];
 
     /** @override */
@@ -163,25 +321,98 @@ export class RotationConstraint extends Component {
 
     /** @override */
     update(): void {
-        const rot = this.object.getRotationLocal(quat.create());
+        if (this._managedBy) {
+            return;
+        }
+        const rot = this.object.getRotationLocal(TempQuat.get());
+        this.object.setRotationLocal(this.constrain(rot, rot));
+        TempQuat.free();
+    }
 
-        /** @todo: Split 1/2/3 DoF constraints.
-         * The current constraint logic is too simplistic and will not hold */
+    /**
+     * Set the component applying this constraint, e.g., a grabbable.
+     *
+     * While managed, the constraint doesn't clamp the transform on its own.
+     *
+     * @note Automatically called by {@link Grabbable} while grabbed.
+     *
+     * @param owner The managing component, `null` to stop managing.
+     */
+    setManagedBy(owner: Component | null) {
+        this._managedBy = owner;
+    }
+
+    /** Component applying this constraint, `null` if none. */
+    get managedBy(): Component | null {
+        return this._managedBy;
+    }
+
+    /**
+     * Constrain a rotation.
+     *
+     * @note The output can alias the input.
+     *
+     * @param out The destination rotation.
+     * @param rotation The rotation to constrain, in **local space**.
+     * @returns The `out` parameter.
+     */
+    constrain(out: quat, rotation: quat): quat {
+        switch (this.constraintType) {
+            case RotationConstraintType.Euler:
+                return this._constrainEuler(out, rotation);
+            case RotationConstraintType.Hinge:
+            case RotationConstraintType.Cone:
+                return this._constrainSwingTwist(out, rotation);
+        }
+        return quat.copy(out, rotation);
+    }
 
+    private _constrainEuler(out: quat, rotation: quat): quat {
         const min = TempVec3.get();
         const max = TempVec3.get();
         initializeBounds(this.min, this.max, min, max);
 
-        const angles = getEulerFromQuat(TempVec3.get(), rot);
+        const angles = getEulerFromQuat(TempVec3.get(), rotation, this.order);
         for (let i = 0; i < 3; ++i) {
             angles[i] = !this._locked[i] ? toDegree(angles[i]) : 0;
         }
         vec3.min(angles, angles, max);
         vec3.max(angles, angles, min);
 
-        quat.fromEuler(rot, angles[0], angles[1], angles[2]);
-        this.object.setRotationLocal(rot);
+        quat.fromEuler(out, angles[0], angles[1], angles[2], EulerOrderGl[this.order]);
 
         TempVec3.free(3);
+        return out;
+    }
+
+    private _constrainSwingTwist(out: quat, rotation: quat): quat {
+        const axis = vec3.normalize(TempVec3.get(), this.axis);
+        const swing = TempQuat.get();
+        const twist = TempQuat.get();
+
+        let angle = swingTwist(swing, twist, rotation, axis);
+        if (this.minAngle <= this.maxAngle) {
+            angle = Math.min(Math.max(angle, toRad(this.minAngle)), toRad(this.maxAngle));
+        }
+        quat.setAxisAngle(twist, axis, angle);
+
+        if (this.constraintType === RotationConstraintType.Hinge) {
+            quat.copy(out, twist);
+        } else {
+            /* Scale down the swing to the cone boundary */
+            const swingAxis = TempVec3.get();
+            const swingAngle = quat.getAxisAngle(swingAxis, swing);
+            const signed = swingAngle > Math.PI ? swingAngle - 2.0 * Math.PI : swingAngle;
+            const maxSwing = toRad(this.coneAngle);
+            if (Math.abs(signed) > maxSwing) {
+                quat.setAxisAngle(swing, swingAxis, Math.sign(signed) * maxSwing);
+            }
+            quat.multiply(out, swing, twist);
+            TempVec3.free();
+        }
+
+        TempVec3.free();
+        TempQuat.free(2);
+        return out;
     }
 }
@@ -1,11 +1,35 @@
 import {Object3D} from '@wonderlandengine/api';
 import {quat, vec3} from 'gl-matrix';
+import {EPSILON} from './constants.js';
+import {enumStringKeys} from './utils/wle.js';
 
 /** Constants. */
-const StackSize = 4;
+
+/** Maximum number of samples stored, i.e., about one second at 60Hz. */
+const StackSize = 64;
+/** Number of samples used when no {@link HistoryTracker.duration} is set. */
+const DefaultSampleCount = 4;
 
 /** Temporaries. */
 const _vectorA = vec3.create();
+const _quatA = quat.create();
+const _quatB = quat.create();
+
+/**
+ * Strategy used to estimate a velocity from the samples of a {@link HistoryTracker}.
+ */
+export enum VelocityEstimator {
+    /** Average of the samples. */
+    Average = 0,
+    /** Average of the samples, weighted by recency and speed. */
+    WeightedPeak,
+    /** Least-squares linear fit of the samples, evaluated at the last sample. */
+    LinearRegression,
+    /** Sample with the highest speed. */
+    MaxSpeed,
+}
+/** List of string keys for {@link VelocityEstimator}. */
+export const VelocityEstimatorNames = enumStringKeys(VelocityEstimator);
 
 /**
  * Angular and linear velocities history tracker.
@@ -14,15 +38,33 @@ const _vectorA = vec3.create();
  * over multiple frames.
  */
 export class HistoryTracker {
+    /* Public Attributes. */
+
+    /** Strategy used by {@link velocity} and {@link angular}. */
+    estimator = VelocityEstimator.Average;
+
+    /**
+     * Duration, in **seconds**, of the history used by the estimator.
+     *
+     * Defaults to `0`, i.e., the 4 most recent samples are used.
+     *
+     * @note The history is limited to 64 samples, whatever the duration.
+     */
+    duration = 0.0;
+
     /* Private Attributes. */
 
     /** List of linear velocities.  */
     private readonly _linear: vec3[] = new Array<vec3>(StackSize);
     /** List of angular velocities.  */
     private readonly _angular: vec3[] = new Array<vec3>(StackSize);
+    /** List of delta times, in **seconds**. */
+    private readonly _deltas = new Float32Array(StackSize);
 
     /** Current position in the ring buffer.  */
     private _curr = -1;
+    /** Number of samples in the ring buffer.  */
+    private _count = 0;
     /** Previous world space position of the object. */
     private _previousPosition: vec3 = vec3.create();
     /** Previous world space rotation of the object. */
@@ -42,7 +84,7 @@ export class HistoryTracker {
      * @param delta The delta time.
      */
     update(target: Object3D, delta: number) {
-        this._curr = (this._curr + 1) % StackSize;
+        this._push(delta);
 
         const linearOutput = this._linear[this._curr];
         const angularOutput = this._angular[this._curr];
@@ -67,7 +109,7 @@ export class HistoryTracker {
         // @ts-ignore Unfortunately, typings are outdated.
         const angular: DOMPointReadOnly | null = xrPose.angularVelocity;
         /* eslint-enable */
-        this._curr = (this._curr + 1) % StackSize;
+        this._push(delta);
         const linearOutput = this._linear[this._curr];
         if (velocity) {
             linearOutput[0] = velocity.x;
@@ -84,11 +126,24 @@ export class HistoryTracker {
             angularOutput[1] = angular.y;
             angularOutput[2] = angular.z;
             space.transformVectorWorld(angularOutput);
+            /* Keep in sync in case the next pose doesn't expose any velocity */
+            target.getRotationWorld(this._previousRotation);
         } else {
             this._updateAngular(angularOutput, target, delta);
         }
     }
 
+    /**
+     * Offset the last tracked position, e.g., once the parent of the target is moved.
+     *
+     * The next {@link update} then only samples the motion of the target itself.
+     *
+     * @param offset The translation, in **world space**.
+     */
+    translate(offset: vec3) {
+        vec3.add(this._previousPosition, this._previousPosition, offset);
+    }
+
     /**
      * Resets the history tracker.
      *
@@ -105,9 +160,12 @@ export class HistoryTracker {
         for (const v of this._angular) {
             vec3.zero(v);
         }
+        this._deltas.fill(0.0);
         this._curr = -1;
+        this._count = 0;
         const position = target.getPositionWorld(_vectorA);
         vec3.copy(this._previousPosition, position);
+        target.getRotationWorld(this._previousRotation);
     }
 
     /**
@@ -121,13 +179,7 @@ export class HistoryTracker {
      * @returns The `out` parameter.
      */
     velocity(out: vec3 = vec3.create()): vec3 {
-        vec3.zero(out);
-        const count = this._linear.length;
-        for (let i = 0; i < count; ++i) {
-            vec3.add(out, out, this._linear[i]);
-        }
-        vec3.scale(out, out, 1.0 / count);
-        return out;
+        return this._estimate(out, this._linear);
     }
 
     /**
@@ -141,12 +193,117 @@ export class HistoryTracker {
      * @returns vec3 The `out` parameter.
      */
     angular(out: vec3): vec3 {
+        return this._estimate(out, this._angular);
+    }
+
+    /** Move to the next sample of the ring buffer. */
+    private _push(delta: number) {
+        this._curr = (this._curr + 1) % StackSize;
+        this._count = Math.min(this._count + 1, StackSize);
+        this._deltas[this._curr] = delta;
+    }
+
+    /**
+     * Number of samples, starting from the most recent one,
+     * covered by {@link duration}.
+     */
+    private _sampleCount(): number {
+        if (this.duration <= 0.0) {
+            /* Samples missing since the last reset count as zero velocities */
+            return DefaultSampleCount;
+        }
+        let elapsed = 0.0;
+        let count = 0;
+        while (count < this._count && elapsed < this.duration) {
+            elapsed += this._deltas[this._index(count++)];
+        }
+        return Math.max(count, Math.min(this._count, 1));
+    }
+
+    /** Ring buffer index of the `i`-th most recent sample. */
+    private _index(i: number): number {
+        return (this._curr - i + StackSize) % StackSize;
+    }
+
+    /**
+     * Estimate a velocity using {@link estimator}.
+     *
+     * @param out The output velocity.
+     * @param samples The samples to estimate the velocity from.
+     * @returns The `out` parameter.
+     */
+    private _estimate(out: vec3, samples: vec3[]): vec3 {
         vec3.zero(out);
-        const count = this._angular.length;
-        for (let i = 0; i < count; ++i) {
-            vec3.add(out, out, this._angular[i]);
+        const count = this._sampleCount();
+        if (!count) {
+            return out;
+        }
+
+        switch (this.estimator) {
+            case VelocityEstimator.Average: {
+                for (let i = 0; i < count; ++i) {
+                    vec3.add(out, out, samples[this._index(i)]);
+                }
+                vec3.scale(out, out, 1.0 / count);
+                break;
+            }
+            case VelocityEstimator.WeightedPeak: {
+                /* Most recent samples have the highest weight, faster samples as well */
+                let totalWeight = 0.0;
+                for (let i = 0; i < count; ++i) {
+                    const sample = samples[this._index(i)];
+                    const weight = (count - i) * vec3.length(sample);
+                    vec3.scaleAndAdd(out, out, sample, weight);
+                    totalWeight += weight;
+                }
+                vec3.scale(out, out, totalWeight > EPSILON ? 1.0 / totalWeight : 0.0);
+                break;
+            }
+            case VelocityEstimator.LinearRegression: {
+                /* Fit `v(t) = a + b * t`, with the most recent sample at `t = 0`.
+                 * Evaluating at `t = 0` gives `a = mean(v) - b * mean(t)`. */
+                let time = 0.0;
+                let meanTime = 0.0;
+                for (let i = 0; i < count; ++i) {
+                    meanTime += time;
+                    vec3.add(out, out, samples[this._index(i)]);
+                    time -= this._deltas[this._index(i)];
+                }
+                meanTime /= count;
+                vec3.scale(out, out, 1.0 / count);
+
+                const slope = _vectorA;
+                vec3.zero(slope);
+                let variance = 0.0;
+                time = 0.0;
+                for (let i = 0; i < count; ++i) {
+                    const index = this._index(i);
+                    const dt = time - meanTime;
+                    slope[0] += dt * (samples[index][0] - out[0]);
+                    slope[1] += dt * (samples[index][1] - out[1]);
+                    slope[2] += dt * (samples[index][2] - out[2]);
+                    variance += dt * dt;
+                    time -= this._deltas[index];
+                }
+                if (variance > EPSILON) {
+                    vec3.scaleAndAdd(out, out, slope, -meanTime / variance);
+                }
+                break;
+            }
+            case VelocityEstimator.MaxSpeed: {
+                let maxSpeed = -1.0;
+                for (let i = 0; i < count; ++i) {
+                    const sample = samples[this._index(i)];
+                    const speed = vec3.squaredLength(sample);
+                    if (speed <= maxSpeed) {
+                        continue;
+                    }
+                    maxSpeed = speed;
+                    vec3.copy(out, sample);
+                }
+                break;
+            }
         }
-        vec3.scale(out, out, 1.0 / count);
         return out;
     }
 
@@ -157,11 +314,22 @@ export class HistoryTracker {
         vec3.copy(this._previousPosition, position);
     }
 
-    /** @ignore - Method not implemented */
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     private _updateAngular(out: vec3, target: Object3D, delta: number): void {
-        /* @todo: Handle angular velocity. */
-        // const worldRot = target.getRotationWorld(quat.create());
-        // const deltaRot = quatDelta(quat.create(), this._previousRotation, worldRot);
+        const rotation = target.getRotationWorld(_quatA);
+
+        /* World space delta, such that: rotation = deltaRot * previous */
+        const deltaRot = quat.invert(_quatB, this._previousRotation);
+        quat.multiply(deltaRot, rotation, deltaRot);
+        quat.normalize(deltaRot, deltaRot);
+
+        /* Take the shortest path. Clamping prevents `acos` from returning NaN. */
+        if (deltaRot[3] < 0.0) {
+            quat.scale(deltaRot, deltaRot, -1.0);
+        }
+        deltaRot[3] = Math.min(deltaRot[3], 1.0);
+
+        const angle = quat.getAxisAngle(out, deltaRot);
+        vec3.scale(out, out, angle / delta);
+        quat.copy(this._previousRotation, rotation);
     }
 }
@@ -1,14 +1,26 @@
 export * from './constraints.js';
 export * from './history-tracker.js';
 export * from './interaction/grab-point.js';
+export * from './interaction/grab-point-registry.js';
 
 export * from './interaction/grabbable.js';
 export * from './interaction/interactor.js';
 export * from './interaction/interactor-input.js';
+export * from './interaction/interactor-haptics.js';
+export * from './interaction/hand-interactor-input.js';
+export * from './interaction/hand-pose.js';
+export * from './interaction/snap-zone.js';
+export * from './interaction/pressable.js';
+export * from './interaction/poke-interactor.js';
+export * from './interaction/slider.js';
+export * from './interaction/dial.js';
+export * from './interaction/hinge.js';
 
 export * from './helpers/active-camera.js';
 
 export * from './utils/math.js';
+export * from './utils/spatial-hash.js';
+export * from './utils/spatial-registry.js';
 export * from './utils/wle.js';
 
 export * from './player-controller/player-controller-input.js';
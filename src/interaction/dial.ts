@@ -0,0 +1,142 @@
+import {Component, Emitter, property} from '@wonderlandengine/api';
+import {quat, vec3} from 'gl-matrix';
+
+import {Grabbable, PivotAxis, PivotAxisNames} from './grabbable.js';
+import {quantize, swingTwist, toDegree, toRad} from '../utils/math.js';
+import {TempQuat} from '../internal-constants.js';
+
+/** Local rotation axis of each {@link PivotAxis}. */
+const Axes = [vec3.fromValues(1, 0, 0), vec3.fromValues(0, 1, 0), vec3.fromValues(0, 0, 1)];
+
+/**
+ * Angular control reading the rotation of a {@link Grabbable} around one axis,
+ * as a normalized value, e.g., a knob, a lever, or a valve.
+ *
+ * The value is `0` at {@link minAngle}, and `1` at {@link maxAngle}. Use
+ * {@link steps} for detents, e.g., for a gear selector.
+ *
+ * Meant to be used with {@link GrabTransformType.AroundPivot}, and a
+ * {@link RotationConstraint} of type {@link RotationConstraintType.Hinge}
+ * sharing the same axis and angles.
+ *
+ * @example
+ * ```js
+ * const dial = object.getComponent(Dial);
+ * dial.onValueChanged.add((dial, value) => radio.volume = value);
+ * ```
+ */
+export class Dial extends Component {
+    static TypeName = 'dial';
+
+    /** Properties */
+
+    /** Rotation axis, in **local space**. */
+    @property.enum(PivotAxisNames, PivotAxis.Y)
+    axis = PivotAxis.Y;
+
+    /** Angle, in **degrees**, around {@link axis} mapped to a value of `0`. */
+    @property.float(-90)
+    minAngle = -90;
+
+    /** Angle, in **degrees**, around {@link axis} mapped to a value of `1`. */
+    @property.float(90)
+    maxAngle = 90;
+
+    /**
+     * Number of detents, including both ends. Once released, the dial
+     * snaps to the closest detent.
+     *
+     * @note Use `0` for a continuous value.
+     */
+    @property.int(0)
+    steps = 0;
+
+    /** Public Attributes */
+
+    /** Notifies once the value changes, with the new value. */
+    onValueChanged: Emitter<[this, number]> = new Emitter();
+
+    /** Private Attributes */
+
+    private _grabbable: Grabbable | null = null;
+
+    /** Current value, `-1` until first read. */
+    private _value = -1.0;
+
+    /** @override */
+    start() {
+        this._grabbable = this.object.getComponent(Grabbable);
+    }
+
+    /** @override */
+    onActivate(): void {
+        this._grabbable?.onGrabEnd.add(this._onGrabEnd);
+    }
+
+    /** @override */
+    onDeactivate(): void {
+        if (this._grabbable && !this._grabbable.isDestroyed) {
+            this._grabbable.onGrabEnd.remove(this._onGrabEnd);
+        }
+    }
+
+    /** @override */
+    update() {
+        const value = quantize(this._normalize(this.angle), this.steps);
+        if (value === this._value) {
+            return;
+        }
+        this._value = value;
+        this.onValueChanged.notify(this, value);
+    }
+
+    /**
+     * Current angle, in **degrees**, around {@link axis}.
+     *
+     * @note Computed using a swing-twist decomposition of the local rotation.
+     */
+    get angle(): number {
+        const rotation = this.object.getRotationLocal(TempQuat.get());
+        const swing = TempQuat.get();
+        const twist = TempQuat.get();
+        const angle = swingTwist(swing, twist, rotation, Axes[this.axis]);
+        TempQuat.free(3);
+        return toDegree(angle);
+    }
+
+    /** Normalized value, in the range `[0, 1]`. */
+    get value(): number {
+        return Math.max(this._value, 0.0);
+    }
+
+    /**
+     * Rotate the dial to a value.
+     *
+     * @note The value is snapped to the closest detent, if any.
+     *
+     * @param value The value, in the range `[0, 1]`.
+     */
+    set value(value: number) {
+        const t = quantize(Math.min(Math.max(value, 0), 1), this.steps);
+        const angle = this.minAngle + t * (this.maxAngle - this.minAngle);
+        const rotation = quat.setAxisAngle(TempQuat.get(), Axes[this.axis], toRad(angle));
+        this.object.setRotationLocal(rotation);
+        TempQuat.free();
+        this._grabbable?.markMoved();
+    }
+
+    private _normalize(angle: number) {
+        const range = this.maxAngle - this.minAngle;
+        if (Math.abs(range) < 1e-6) {
+            return 0.0;
+        }
+        return Math.min(Math.max((angle - this.minAngle) / range, 0), 1);
+    }
+
+    private _onGrabEnd = () => {
+        /* Rotate onto the detent matching the value */
+        if (this.steps >= 2) {
+            this.value = this._value;
+        }
+    };
+}
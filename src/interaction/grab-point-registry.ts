@@ -0,0 +1,96 @@
+import {PhysXComponent, Scene} from '@wonderlandengine/api';
+
+import {GrabPoint, GrabSearchMode} from './grab-point.js';
+import {SpatialRegistry} from '../utils/spatial-registry.js';
+
+/** Constants */
+
+/** Size, in **meters**, of the grid cells. */
+const CellSize = 0.5;
+/**
+ * Largest {@link GrabPoint.maxDistance}, in **meters**, of indexed grab points.
+ * Grab points with a larger reach are tested by every query, to keep the
+ * number of visited cells low.
+ */
+const MaxIndexedDistance = 1.0;
+
+/** Registry of each scene. */
+const Registries = new WeakMap<Scene, GrabPointRegistry>();
+
+/**
+ * Reach of a grab point, as seen by the registry.
+ *
+ * Grab points searched by overlap are never returned: they are found
+ * using the interactor collision. Remote grab points are returned by every query.
+ */
+function grabPointReach(point: GrabPoint): number {
+    switch (point.searchMode) {
+        case GrabSearchMode.Distance:
+            return point.maxDistance;
+        case GrabSearchMode.Ray:
+        case GrabSearchMode.Cone:
+            return Number.POSITIVE_INFINITY;
+        default:
+            return -1.0;
+    }
+}
+
+/**
+ * `true` if the grab point is expected to move on its own, i.e., explicitly
+ * {@link GrabPoint.movable}, or owned by a simulated physx object.
+ */
+function isGrabPointDynamic(point: GrabPoint): boolean {
+    if (point.movable) {
+        return true;
+    }
+    const physx = point.grabbable?.object.getComponent(PhysXComponent);
+    return !!physx && !physx.kinematic && !physx.static;
+}
+
+/**
+ * Registry of the active {@link GrabPoint} of a scene, used by {@link Interactor}
+ * to search for grab points without iterating over the entire scene.
+ *
+ * Grab points are indexed once, and only re-indexed when they move:
+ * - Grab points of a grabbed grabbable, and shortly after it's released
+ * - {@link GrabPoint.movable} grab points, and grab points of simulated physx objects
+ * - Grab points woken up using {@link wake}, e.g., after moving a grabbable from code
+ *
+ * @example
+ * ```js
+ * const registry = GrabPointRegistry.get(this.scene);
+ * const nearby = registry.query([], position);
+ *
+ * // Re-index after teleporting a grabbable
+ * grabbable.object.setPositionWorld(target);
+ * grabbable.markMoved();
+ * ```
+ */
+export class GrabPointRegistry extends SpatialRegistry<GrabPoint> {
+    /**
+     * Retrieve the registry of a scene, created on demand.
+     *
+     * @param scene The scene.
+     * @returns The registry.
+     */
+    static get(scene: Scene): GrabPointRegistry {
+        let registry = Registries.get(scene);
+        if (!registry) {
+            registry = new GrabPointRegistry(scene);
+            Registries.set(scene, registry);
+        }
+        return registry;
+    }
+
+    private constructor(scene: Scene) {
+        super({
+            cellSize: CellSize,
+            maxIndexedReach: MaxIndexedDistance,
+            position: (point, out) => point.object.getPositionWorld(out),
+            reach: grabPointReach,
+            isDynamic: isGrabPointDynamic,
+        });
+        /* Moving grab points are checked at most once per frame */
+        scene.onPreRender.add(() => this.invalidate());
+    }
+}
@@ -1,6 +1,12 @@
-import {Component, property} from '@wonderlandengine/api';
+import {Component, Emitter, Object3D, property, Scene} from '@wonderlandengine/api';
+import {quat} from 'gl-matrix';
+
 import {Interactor} from './interactor.js';
-import {enumStringKeys} from '../utils/wle.js';
+import {Grabbable} from './grabbable.js';
+import {Handedness, HandednessNames, HandPose} from './hand-pose.js';
+import {GrabPointRegistry} from './grab-point-registry.js';
+import {componentError, enumStringKeys} from '../utils/wle.js';
+import {TempQuat, TempVec3} from '../internal-constants.js';
 
 /**
  * Visual state to apply to an interactor.
@@ -30,6 +36,22 @@ export enum GrabSearchMode {
      * overlaps with the interactor.
      */
     Overlap = 1,
+    /**
+     * Interaction occurs if the grab point is close enough to the ray
+     * cast from the interactor forward axis.
+     *
+     * The ray length is given by {@link GrabPoint.maxDistance}, and its
+     * thickness by {@link GrabPoint.rayRadius}.
+     */
+    Ray = 2,
+    /**
+     * Interaction occurs if the grab point is inside the cone cast from
+     * the interactor forward axis.
+     *
+     * The cone length is given by {@link GrabPoint.maxDistance}, and its
+     * half-angle by {@link GrabPoint.coneAngle}.
+     */
+    Cone = 3,
 }
 /** List of string keys for {@link GrabSearchMode}. */
 export const GrabSearchModeNames = enumStringKeys(GrabSearchMode);
@@ -53,6 +75,39 @@ export enum GrabSnapMode {
 /** List of string keys for {@link GrabSnapMode}. */
 export const GrabSnapModeNames = enumStringKeys(GrabSnapMode);
 
+/**
+ * Describe how a {@link Grabbable} reaches the interactor when grabbed
+ * from a distance, i.e., using {@link GrabSearchMode.Ray} or {@link GrabSearchMode.Cone}.
+ */
+export enum GrabRemoteMode {
+    /** Grabbable travels towards the interactor at {@link GrabPoint.pullSpeed}. */
+    Pull = 0,
+    /** Grabbable is attached at range, keeping its distance to the interactor. */
+    AtRange = 1,
+}
+/** List of string keys for {@link GrabRemoteMode}. */
+export const GrabRemoteModeNames = enumStringKeys(GrabRemoteMode);
+
+/**
+ * Normal of the plane used to mirror a {@link GrabPoint} for the opposite hand,
+ * in the {@link Grabbable} space.
+ */
+export enum MirrorAxis {
+    /** No mirroring, the grab point is only usable by its {@link GrabPoint.handedness}. */
+    None = 0,
+    /** Mirror across the YZ plane. */
+    X,
+    /** Mirror across the XZ plane. */
+    Y,
+    /** Mirror across the XY plane. */
+    Z,
+}
+/** List of string keys for {@link MirrorAxis}. */
+export const MirrorAxisNames = enumStringKeys(MirrorAxis);
+
+/** Pure quaternion of the axis mirroring a left hand into a right hand. */
+const MIRROR_HAND = quat.fromValues(1, 0, 0, 0);
+
 /**
  * Link used to specify how / where a {@link Grabbable} is grabbed.
  */
@@ -83,11 +138,54 @@ export class GrabPoint extends Component {
     /**
      * Maximum distance at which interaction can occur.
      *
-     * @note This is only used if {@link searchMode} is set to {@link GrabSearchMode.Distance}.
+     * @note This is unused if {@link searchMode} is set to {@link GrabSearchMode.Overlap}.
      */
     @property.float(0.2)
     maxDistance = 0.2;
 
+    /**
+     * Radius of the ray, i.e., maximum distance between the grab point and the ray.
+     *
+     * @note This is only used if {@link searchMode} is set to {@link GrabSearchMode.Ray}.
+     */
+    @property.float(0.1)
+    rayRadius = 0.1;
+
+    /**
+     * Half-angle of the cone, in **degrees**.
+     *
+     * @note This is only used if {@link searchMode} is set to {@link GrabSearchMode.Cone}.
+     */
+    @property.float(15)
+    coneAngle = 15;
+
+    /**
+     * Remote grab behavior, defaults to {@link GrabRemoteMode.Pull}.
+     *
+     * @note This is only used if {@link searchMode} is set to {@link GrabSearchMode.Ray}
+     * or {@link GrabSearchMode.Cone}.
+     */
+    @property.enum(GrabRemoteModeNames, GrabRemoteMode.Pull)
+    remoteMode: GrabRemoteMode = GrabRemoteMode.Pull;
+
+    /**
+     * Speed, in **meters per second**, at which the grabbable travels
+     * towards the interactor.
+     *
+     * @note This is only used if {@link remoteMode} is set to {@link GrabRemoteMode.Pull}.
+     */
+    @property.float(4)
+    pullSpeed = 4;
+
+    /**
+     * Priority of this grab point when several are in reach.
+     *
+     * Higher priorities are preferred, whatever the distance.
+     * See {@link Interactor.scoreGrabPoint}.
+     */
+    @property.int(0)
+    priority = 0;
+
     /** If `true`, handle can be transfered to another interactor. */
     @property.bool(false)
     transferable = false;
@@ -96,11 +194,184 @@ export class GrabPoint extends Component {
     @property.enum(InteractorVisualStateNames, InteractorVisualState.None)
     interactorVisualState = InteractorVisualState.None;
 
+    /**
+     * Object with a {@link HandPose} component, applied to the interactor
+     * hand while grabbing.
+     *
+     * @note The pose is mirrored for the opposite hand.
+     */
+    @property.object()
+    handPoseObject: Object3D | null = null;
+
+    /**
+     * Hand this grab point is authored for.
+     *
+     * When set, the grab point is only usable by this hand, unless
+     * {@link mirrorAxis} is set.
+     *
+     * Defaults to {@link Handedness.None}, i.e., usable by both hands.
+     */
+    @property.enum(HandednessNames, Handedness.None)
+    handedness = Handedness.None;
+
+    /**
+     * Normal of the plane, in the grabbable space, used to mirror this grab point
+     * for the hand opposite to {@link handedness}.
+     *
+     * For instance, a pistol authored for the right hand, with its barrel
+     * along the local `z` axis, is mirrored using {@link MirrorAxis.X}.
+     */
+    @property.enum(MirrorAxisNames, MirrorAxis.None)
+    mirrorAxis = MirrorAxis.None;
+
+    /**
+     * If `true`, the grab point is expected to move on its own, e.g., on a
+     * moving platform, and is re-indexed by the {@link GrabPointRegistry} every frame.
+     *
+     * @note Grab points of grabbed, thrown, or physx-simulated grabbables
+     * are re-indexed automatically.
+     */
+    @property.bool(false)
+    movable = false;
+
+    /** Public Attributes */
+
+    /** Notifies once an interactor starts hovering this grab point. */
+    onHoverStart: Emitter<[this, Interactor]> = new Emitter();
+
+    /** Notifies once an interactor stops hovering this grab point. */
+    onHoverEnd: Emitter<[this, Interactor]> = new Emitter();
+
     /** @hidden */
     _interactor: Interactor | null = null;
 
+    /** Grabbable owning this instance. */
+    private _grabbable: Grabbable | null = null;
+
+    /** Anchor mirrored for the opposite hand, created on demand. */
+    private _mirrored: Object3D | null = null;
+
+    /** @override */
+    onActivate(): void {
+        GrabPointRegistry.get(this.scene as Scene).add(this);
+    }
+
+    /** @override */
+    onDeactivate(): void {
+        GrabPointRegistry.get(this.scene as Scene).remove(this);
+    }
+
+    /** @override */
+    onDestroy(): void {
+        if (this._mirrored && !this._mirrored.isDestroyed) {
+            this._mirrored.destroy();
+        }
+    }
+
+    /**
+     * Check whether a hand can use this grab point.
+     *
+     * @param handedness The hand to check.
+     * @returns `true` if usable, `false` otherwise.
+     */
+    isUsableBy(handedness: Handedness): boolean {
+        return (
+            handedness === Handedness.None ||
+            this.handedness === Handedness.None ||
+            this.handedness === handedness ||
+            this.mirrorAxis !== MirrorAxis.None
+        );
+    }
+
+    /**
+     * Retrieve the object used as anchor when grabbed by a hand.
+     *
+     * @param handedness The hand grabbing this grab point.
+     * @returns This object, or an anchor mirrored across {@link mirrorAxis}
+     *     when used by the opposite hand.
+     */
+    anchorFor(handedness: Handedness): Object3D {
+        const mirrored =
+            this.mirrorAxis !== MirrorAxis.None &&
+            this.handedness !== Handedness.None &&
+            handedness !== Handedness.None &&
+            handedness !== this.handedness;
+        if (!mirrored || !this._grabbable) {
+            return this.object;
+        }
+
+        const parent = this._grabbable.object;
+        if (!this._mirrored || this._mirrored.isDestroyed) {
+            this._mirrored = this.scene.addObject(parent);
+            this._mirrored.name = `${this.object.name}-mirrored`;
+        }
+
+        /* Transform relative to the grabbable */
+        const position = this.object.getPositionWorld(TempVec3.get());
+        parent.transformPointInverseWorld(position);
+        const rotation = parent.getRotationWorld(TempQuat.get());
+        quat.invert(rotation, rotation);
+        quat.multiply(rotation, rotation, this.object.getRotationWorld(TempQuat.get()));
+
+        /* Reflect the position, and the rotation such that the opposite hand
+         * frame is mirrored as well, i.e., `n * q * x`, with `n` and `x`
+         * pure quaternions */
+        const normal = TempQuat.get();
+        quat.set(normal, 0, 0, 0, 0);
+        normal[this.mirrorAxis - MirrorAxis.X] = 1;
+        position[this.mirrorAxis - MirrorAxis.X] *= -1;
+
+        quat.multiply(rotation, normal, rotation);
+        quat.multiply(rotation, rotation, MIRROR_HAND);
+        quat.normalize(rotation, rotation);
+
+        this._mirrored.setPositionLocal(position);
+        this._mirrored.setRotationLocal(rotation);
+
+        TempVec3.free();
+        TempQuat.free(3);
+        return this._mirrored;
+    }
+
+    /** `true` if this grab point is searched from a distance. */
+    get isRemote() {
+        return (
+            this.searchMode === GrabSearchMode.Ray ||
+            this.searchMode === GrabSearchMode.Cone
+        );
+    }
+
     /** Current interactor managing this instance. */
     get interactor() {
         return this._interactor;
     }
+
+    /** Grabbable owning this instance. */
+    get grabbable(): Grabbable | null {
+        return this._grabbable;
+    }
+
+    /**
+     * Set the grabbable owning this instance.
+     *
+     * @note Automatically called by {@link Grabbable}.
+     *
+     * @throws If the grab point is already owned by another grabbable.
+     */
+    set grabbable(grabbable: Grabbable | null) {
+        if (grabbable && this._grabbable && !this._grabbable.equals(grabbable)) {
+            throw new Error(
+                componentError(
+                    this,
+                    `already owned by grabbable on '${this._grabbable.object.name}'`
+                )
+            );
+        }
+        this._grabbable = grabbable;
+    }
+
+    /** Hand pose applied while grabbing, `null` if none. */
+    get handPose(): HandPose | null {
+        return this.handPoseObject?.getComponent(HandPose) ?? null;
+    }
 }
@@ -4,17 +4,30 @@ import {
     property,
     Component,
     Emitter,
+    ForceMode,
     Object3D,
     PhysXComponent,
     Property,
+    Scene,
     WonderlandEngine,
 } from '@wonderlandengine/api';
 
 import {Interactor} from './interactor.js';
-import {HistoryTracker} from '../history-tracker.js';
-import {computeRelativeTransform, isPointEqual, toRad} from '../utils/math.js';
+import {GrabPointRegistry} from './grab-point-registry.js';
+import {
+    HistoryTracker,
+    VelocityEstimator,
+    VelocityEstimatorNames,
+} from '../history-tracker.js';
+import {
+    computeRelativeTransform,
+    fitRigidTransform,
+    lerpTransform,
+    toRad,
+} from '../utils/math.js';
 import {
     GrabPoint,
+    GrabRemoteMode,
     GrabSnapMode,
     InteractorVisualState,
     InteractorVisualStateNames,
@@ -24,19 +37,34 @@ import {
     rotateAroundPivot,
     rotateFreeDual,
 } from './providers.js';
-import {FORWARD, RIGHT, UP} from '../constants.js';
+import {HandPose} from './hand-pose.js';
+import {RotationConstraint, TranslationConstraint} from '../constraints.js';
+import {EPSILON, FORWARD, RIGHT, UP} from '../constants.js';
 import {TempDualQuat, TempQuat, TempVec3} from '../internal-constants.js';
-import {componentError, enumStringKeys} from '../utils/wle.js';
+import {componentError, enumStringKeys, setPhysxKinematic} from '../utils/wle.js';
 
 /* Constants */
 
-const MAX_GRABS = 2;
-const GRAB_EPSILON_DIST = 0.005; /* Half centimeter. */
-const GRAB_EPSILON_ANGLE = toRad(0.5); /* Half a degree */
+/** Rate, in **1 / seconds**, at which a weighted object catches up with the hands. */
+const WEIGHT_RESPONSIVENESS = 20;
+/** Maximum angular speed, in **degrees per second**, of a weighted object. */
+const WEIGHT_MAX_ANGULAR_SPEED = 720;
+/** Distance, in **meters**, above which a constraint is considered clamping the position. */
+const LIMIT_EPSILON_DIST = 0.001;
+/** Angle, in **degrees**, above which a constraint is considered clamping the rotation. */
+const LIMIT_EPSILON_ANGLE = 0.5;
 
 export enum GrabTransformType {
     Hand = 0,
     AroundPivot,
+    /**
+     * Follow the hand just like {@link GrabTransformType.Hand}, while staying
+     * dynamic: the object is driven towards the hand using forces, and collides
+     * with the world.
+     *
+     * @note Requires a {@link PhysXComponent}.
+     */
+    Physics,
 }
 /** List of string keys for {@link GrabTransformType}. */
 const GrabTransformTypeNames = enumStringKeys(GrabTransformType);
@@ -60,6 +88,21 @@ function axis(axis: PivotAxis.X | PivotAxis.Y | PivotAxis.Z) {
     }
 }
 
+/**
+ * Retrieve the object used as the grab source.
+ *
+ * @param handle The grab point undergoing the interaction.
+ * @param interactor The interactor issuing the interaction.
+ * @returns The grab point anchor when snapping, the interactor object otherwise.
+ */
+function grabSource(handle: GrabPoint, interactor: Interactor): Object3D {
+    const atRange = handle.isRemote && handle.remoteMode === GrabRemoteMode.AtRange;
+    if (handle.snap == GrabSnapMode.None || atRange) {
+        return interactor.object;
+    }
+    return handle.anchorFor(interactor.handedness);
+}
+
 /** Temporaries associated to a grab point upon interaction. */
 interface GrabData {
     interactor: Interactor;
@@ -69,6 +112,22 @@ interface GrabData {
     localAnchor: vec3;
 }
 
+/**
+ * Contribution of a grab to the pose solved when more than
+ * two interactors hold a {@link Grabbable}.
+ */
+export interface GrabContribution {
+    /** The interactor holding the grabbable. */
+    interactor: Interactor;
+    /** The grab point held by the interactor. */
+    grabPoint: GrabPoint;
+    /**
+     * Distance, in **meters**, between the interactor and its grab anchor
+     * once the solved pose is applied.
+     */
+    residual: number;
+}
+
 /**
  * Enables objects to be interactively grabbed and manipulated in a virtual environment.
  *
@@ -80,9 +139,24 @@ interface GrabData {
 export class Grabbable extends Component {
     static TypeName = 'grabbable';
 
+    /**
+     * Notifies once any grabbable is grabbed, see {@link onGrabStart}.
+     *
+     * Useful to listen to grabbables spawned at runtime.
+     */
+    static OnAnyGrabStart: Emitter<[Grabbable]> = new Emitter();
+
+    /**
+     * Notifies once any grabbable is released, see {@link onGrabEnd}.
+     *
+     * Useful to listen to grabbables spawned at runtime.
+     */
+    static OnAnyGrabEnd: Emitter<[Grabbable]> = new Emitter();
+
     /** @override */
     static onRegister(engine: WonderlandEngine) {
         engine.registerComponent(GrabPoint);
+        engine.registerComponent(HandPose);
     }
 
     /** Properties */
@@ -121,6 +195,23 @@ export class Grabbable extends Component {
     @property.float(1.0)
     public throwAngularIntensity = 1.0;
 
+    /**
+     * Strategy used to estimate the throw velocities from the grab history.
+     *
+     * Defaults to {@link VelocityEstimator.Average}.
+     */
+    @property.enum(VelocityEstimatorNames, VelocityEstimator.Average)
+    public throwEstimator = VelocityEstimator.Average;
+
+    /**
+     * Duration, in **seconds**, of the grab history used to estimate
+     * the throw velocities.
+     *
+     * Defaults to `0`, i.e., the 4 most recent frames are used.
+     */
+    @property.float(0.0)
+    public throwHistoryDuration = 0.0;
+
     /**
      * If `true`, the grabbable will be updated based on the controller
      * velocity data, if available.
@@ -157,6 +248,37 @@ export class Grabbable extends Component {
     @property.int(0)
     public distanceHandle = 0;
 
+    /**
+     * Maximum number of interactors simultaneously grabbing this object.
+     *
+     * With more than two grabs, the object pose is the rigid transform
+     * best matching all the grab anchors, see {@link onGrabsSolved}.
+     *
+     * @note More than two grabs are only supported by {@link GrabTransformType.Hand}
+     * and {@link GrabTransformType.Physics}. {@link GrabTransformType.AroundPivot}
+     * only uses the first two.
+     */
+    @property.int(2)
+    public maxGrabs = 2;
+
+    /**
+     * If `true`, the object stays attached once the grab input is released,
+     * and is dropped when the grab input is pressed again, e.g., for tools.
+     *
+     * @note Overrides {@link Interactor.grabMode}.
+     */
+    @property.bool(false)
+    public sticky = false;
+
+    /**
+     * If `true`, grabbing this object doesn't move it, but moves the player
+     * instead, e.g., for ladders or cliff walls.
+     *
+     * @note Requires a {@link PlayerController} in the scene.
+     */
+    @property.bool(false)
+    public climbable = false;
+
     @property.enum(GrabTransformTypeNames, GrabTransformType.Hand)
     public transformType = GrabTransformType.Hand;
 
@@ -164,6 +286,68 @@ export class Grabbable extends Component {
     @property.enum(PivotAxisNames, PivotAxis.Y)
     public pivotAxis: PivotAxis = PivotAxis.Y;
 
+    /**
+     * Stiffness of the spring driving the object towards the hand, i.e.,
+     * the acceleration per **meter** (or **radian**) of error.
+     *
+     * @note Only used when {@link transformType} is {@link GrabTransformType.Physics}.
+     */
+    @property.float(300)
+    public physicsStiffness = 300;
+
+    /**
+     * Damping of the spring driving the object towards the hand, i.e.,
+     * the deceleration per **meter per second** (or **radian per second**).
+     *
+     * @note Only used when {@link transformType} is {@link GrabTransformType.Physics}.
+     */
+    @property.float(35)
+    public physicsDamping = 35;
+
+    /**
+     * Maximum force, in **newtons**, used to drive the object towards the hand.
+     *
+     * Heavy objects reach the limit sooner, and lag behind the hand.
+     * The angular acceleration is limited to `physicsMaxForce / mass`.
+     *
+     * @note Only used when {@link transformType} is {@link GrabTransformType.Physics}.
+     */
+    @property.float(500)
+    public physicsMaxForce = 500;
+
+    /**
+     * If `true`, the object feels heavy when its mass exceeds the strength
+     * of the hands holding it:
+     * - It lags behind the hands
+     * - Its rotation speed is limited
+     * - Above {@link twoHandMass}, a single hand can only drag it
+     */
+    @property.bool(false)
+    public useWeight = false;
+
+    /**
+     * Mass, in **kilograms**, used by the weight model.
+     *
+     * @note Set to `0` to use the physx component mass.
+     */
+    @property.float(0)
+    public mass = 0;
+
+    /** Mass, in **kilograms**, that a single hand carries without lag. */
+    @property.float(10)
+    public handStrength = 10;
+
+    /**
+     * Mass, in **kilograms**, above which two hands are required to lift the object.
+     *
+     * When grabbed with a single hand, the object can only be dragged, i.e.,
+     * it keeps its height and rotation.
+     *
+     * @note Set a negative value to disable.
+     */
+    @property.float(20)
+    public twoHandMass = 20;
+
     @property.object()
     public secondaryPivot: Object3D | null = null;
 
@@ -171,6 +355,12 @@ export class Grabbable extends Component {
     @property.enum(PivotAxisNames, PivotAxis.Y)
     public secondaryPivotAxis: PivotAxis = PivotAxis.Y;
 
+    /**
+     * Tag used to filter grabbables, e.g., by {@link SnapZone.tag}.
+     */
+    @property.string()
+    public tag = '';
+
     /**
      * Visual state to apply to the interactor once interaction occurs.
      *
@@ -183,6 +373,12 @@ export class Grabbable extends Component {
 
     grabPoints: GrabPoint[] = [];
 
+    /** Notifies once an interactor starts hovering one of the grab points. */
+    onHoverStart: Emitter<[this, GrabPoint, Interactor]> = new Emitter();
+
+    /** Notifies once an interactor stops hovering one of the grab points. */
+    onHoverEnd: Emitter<[this, GrabPoint, Interactor]> = new Emitter();
+
     /** Notifies once a grab point is selected for interaction. */
     onGrabPointSelect: Emitter<[this, GrabPoint]> = new Emitter();
 
@@ -203,8 +399,54 @@ export class Grabbable extends Component {
      */
     onGrabEnd: Emitter<[this]> = new Emitter();
 
+    /**
+     * Notifies once an interactor holding this object starts activating it,
+     * e.g., when pulling the trigger of a held gun.
+     */
+    onActivateStart: Emitter<[this, Interactor]> = new Emitter();
+
+    /** Notifies once an interactor holding this object stops activating it. */
+    onActivateEnd: Emitter<[this, Interactor]> = new Emitter();
+
+    /**
+     * Notifies once the analog activation value, in the range `[0, 1]`,
+     * of an interactor holding this object changes.
+     *
+     * @note Only notified with inputs providing {@link InteractorInput.activateValue}.
+     */
+    onActivateValue: Emitter<[this, Interactor, number]> = new Emitter();
+
+    /**
+     * Notifies once the pose is solved from more than two grabs, with the
+     * contribution of each grab.
+     *
+     * @example
+     * ```js
+     * grabbable.onGrabsSolved.add((grabbable, contributions) => {
+     *     // Detect a player pulling in the wrong direction
+     *     const worst = Math.max(...contributions.map((c) => c.residual));
+     * });
+     * ```
+     */
+    onGrabsSolved: Emitter<[this, readonly GrabContribution[]]> = new Emitter();
+
+    /**
+     * Notifies once the grabbed transform starts being clamped by the
+     * {@link TranslationConstraint} or {@link RotationConstraint} of this object,
+     * e.g., when a lever hits its end stop.
+     */
+    onConstraintLimit: Emitter<[this]> = new Emitter();
+
     /** Private Attributes. */
 
+    /** Grab anchors and interactor positions, in **world space**, used by the solver. */
+    private _solverSources: vec3[] = [];
+    private _solverTargets: vec3[] = [];
+    /** Last solved rotation, used as initial guess for the next solve. */
+    private _solverRotation = quat.create();
+    /** Contributions notified by {@link onGrabsSolved}. */
+    private _contributions: GrabContribution[] = [];
+
     /** Cached currently grabbed data. */
     private _grabData: GrabData[] = [];
 
@@ -216,6 +458,10 @@ export class Grabbable extends Component {
     private _history: HistoryTracker = new HistoryTracker();
     private _physx: PhysXComponent | null = null;
 
+    /** Constraints applied when computing the grabbed transform. */
+    private _translationConstraint: TranslationConstraint | null = null;
+    private _rotationConstraint: RotationConstraint | null = null;
+
     /**
      * Relative grab transform to apply every update, used
      * to maintain the object transform when grab starts.
@@ -238,6 +484,15 @@ export class Grabbable extends Component {
     /** `true` if the grabbable should continue lerping to the target rotation / position. */
     private _lerp = false;
 
+    /** `true` if the grabbable is travelling towards the interactor after a remote grab. */
+    private _pulling = false;
+
+    /** Physx gravity state, restored once released in physics mode. */
+    private _hadGravity = true;
+
+    /** `true` if the constraints clamped the grabbed transform last frame. */
+    private _atLimit = false;
+
     init() {
         this.grabPoints = this.handleObjects.map((o) => {
             return o.getComponent(GrabPoint) ?? o.addComponent(GrabPoint)!;
@@ -247,18 +502,30 @@ export class Grabbable extends Component {
                 this.object.getComponent(GrabPoint) ?? this.object.addComponent(GrabPoint)!;
             this.grabPoints.push(handle);
         }
+        for (const handle of this.grabPoints) {
+            handle.grabbable = this;
+        }
     }
 
     start(): void {
         this._physx = this.object.getComponent('physx');
+        this._translationConstraint = this.object.getComponent(TranslationConstraint);
+        this._rotationConstraint = this.object.getComponent(RotationConstraint);
     }
 
     onActivate(): void {
-        this._computeWorldSpace = this.transformType === GrabTransformType.Hand;
+        this._computeWorldSpace = this.transformType !== GrabTransformType.AroundPivot;
+        if (this.transformType === GrabTransformType.Physics && !this._physx) {
+            console.warn(
+                componentError(this, 'Physics transform type requires a physx component')
+            );
+        }
     }
 
     update(dt: number): void {
-        for (let i = this._grabData.length - 1; i >= 0; --i) {
+        /* The grab anchor is far from the interactor until the pull is over */
+        const count = this._pulling ? 0 : this._grabData.length;
+        for (let i = count - 1; i >= 0; --i) {
             const grab = this._grabData[i];
             const target = this.object.transformPointWorld(
                 TempVec3.get(),
@@ -270,18 +537,28 @@ export class Grabbable extends Component {
 
             if (squaredDistance <= this.releaseDistance * this.releaseDistance) continue;
 
-            /* Hands are too far apart, release the second handle. */
-            this.release(grab.interactor);
+            /* Hands are too far apart, release the second handle.
+             * Goes through the interactor to notify its grab end. */
+            grab.interactor.stopInteraction();
         }
 
         if (!this.isGrabbed) return;
 
+        /* Climbing moves the player, not this object */
+        if (this.climbable) {
+            return;
+        }
+
         const primaryInteractor = this.primaryGrab!.interactor.object;
         const secondaryInteractor = this.secondaryGrab?.interactor.object ?? null;
 
+        /* Constraints are expressed in local space */
+        const constrained = this._isConstrained();
+        const worldSpace = this._computeWorldSpace && !constrained;
+
         const currentPos = TempVec3.get();
         const currentRot = TempQuat.get();
-        if (this._computeWorldSpace) {
+        if (worldSpace) {
             this.object.getPositionWorld(currentPos);
             this.object.getRotationWorld(currentRot);
         } else {
@@ -298,12 +575,47 @@ export class Grabbable extends Component {
         const transform = TempDualQuat.get();
         const pivotRot = TempQuat.get();
 
-        this.computeTransform(transform, pivotRot, primaryInteractor, secondaryInteractor);
+        if (this._grabData.length > 2 && this._computeWorldSpace) {
+            quat.identity(pivotRot);
+            this._solveGrabs(transform);
+        } else {
+            this.computeTransform(
+                transform,
+                pivotRot,
+                primaryInteractor,
+                secondaryInteractor
+            );
+        }
         quat2.getTranslation(position, transform);
         quat2.getReal(rotation, transform as quat);
         quat.normalize(rotation, rotation);
 
-        if (this._lerp) {
+        if (constrained) {
+            if (this._computeWorldSpace) {
+                this._worldToLocal(position, rotation);
+            }
+            this._constrain(position, rotation);
+        }
+
+        if (this._isPhysicsDriven()) {
+            /* The drive already smoothly moves the object towards the target */
+            this._pulling = false;
+            this._lerp = false;
+        }
+
+        if (this._pulling) {
+            const primaryHandle = this.grabPoints[this.primaryGrab!.handleId];
+            const distance = vec3.distance(currentPos, position);
+            const step = primaryHandle.pullSpeed * dt;
+            if (distance > step) {
+                const t = step / distance;
+                vec3.lerp(position, currentPos, position, t);
+                quat.slerp(rotation, currentRot, rotation, t);
+                quat.normalize(rotation, rotation);
+            } else {
+                this._pulling = false;
+            }
+        } else if (this._lerp) {
             const primaryHandle = this.grabPoints[this.primaryGrab!.handleId];
             let lerp = primaryHandle.snapLerp;
             if (this.secondaryGrab) {
@@ -312,16 +624,24 @@ export class Grabbable extends Component {
             }
             lerp = clamp(lerp, 0, 1);
 
-            vec3.lerp(position, currentPos, position, lerp);
-            quat.slerp(rotation, currentRot, rotation, lerp);
-            quat.normalize(rotation, rotation);
+            this._lerp = lerpTransform(
+                position,
+                rotation,
+                currentPos,
+                currentRot,
+                position,
+                rotation,
+                lerp
+            );
+        }
 
-            this._lerp =
-                !isPointEqual(position, currentPos, GRAB_EPSILON_DIST) ||
-                !(quat.getAngle(rotation, currentRot) < GRAB_EPSILON_ANGLE);
+        if (this.useWeight) {
+            this._applyWeight(position, rotation, currentPos, currentRot, worldSpace, dt);
         }
 
-        if (this._computeWorldSpace) {
+        if (this._isPhysicsDriven()) {
+            this._drive(position, rotation, constrained);
+        } else if (worldSpace) {
             this.object.setPositionWorld(position);
             this.object.setRotationWorld(rotation);
         } else {
@@ -348,6 +668,7 @@ export class Grabbable extends Component {
         } else {
             this._history.update(this.object, dt);
         }
+        this.markMoved();
     }
 
     /**
@@ -359,6 +680,9 @@ export class Grabbable extends Component {
         }
         this._setKinematicState(false);
 
+        this._history.estimator = this.throwEstimator;
+        this._history.duration = this.throwHistoryDuration;
+
         const angular = this._history.angular(TempVec3.get());
         vec3.scale(angular, angular, this.throwAngularIntensity);
 
@@ -392,9 +716,12 @@ export class Grabbable extends Component {
      *
      * @param interactor The interactor issuing the interaction.
      * @param interactable The interactable undergoing the action.
+     * @returns `true` if grabbed, `false` if {@link maxGrabs} is already reached.
      */
-    grab(interactor: Interactor, handleId: number) {
-        if (this._grabData.length === MAX_GRABS) return;
+    grab(interactor: Interactor, handleId: number): boolean {
+        if (this._grabData.length >= this.maxGrabs) {
+            return false;
+        }
 
         const grab: GrabData = {
             interactor,
@@ -406,24 +733,35 @@ export class Grabbable extends Component {
         const dual = this._grabData.length > 1;
         if (dual && handleId === 0) {
             /* Ensure primary grab is always first */
-            const second = this._grabData[0];
-            this._grabData[0] = this._grabData[1];
-            this._grabData[1] = second;
+            const last = this._grabData.length - 1;
+            this._grabData[last] = this._grabData[0];
+            this._grabData[0] = grab;
         }
 
         const handle = this.grabPoints[handleId];
-        const source = handle.snap != GrabSnapMode.None ? handle.object : interactor.object;
+        const source = grabSource(handle, interactor);
 
         source.getPositionWorld(grab.localAnchor);
         this.object.transformPointInverseWorld(grab.localAnchor);
 
-        this._history.reset(this.object);
-        this.initializeGrab();
+        if (!this.climbable) {
+            this._history.reset(this.object);
+            this._setConstraintsManaged(true);
+            this._atLimit = false;
+            if (!dual && this._isPhysicsDriven()) {
+                this._hadGravity = this._physx!.gravity;
+            }
+            this.initializeGrab();
+            this._pulling =
+                !dual && handle.isRemote && handle.remoteMode === GrabRemoteMode.Pull;
+        }
 
         this.onGrabPointSelect.notify(this, handle);
         if (!dual) {
             this.onGrabStart.notify(this);
+            Grabbable.OnAnyGrabStart.notify(this);
         }
+        return true;
     }
 
     /**
@@ -437,10 +775,17 @@ export class Grabbable extends Component {
      * In general, you will not call this method but rather rely on collision
      * checks between the {@link Interactor} and the {@link Interactable}.
      *
+     * @note The interactor is notified, and stops interacting with this object.
+     *
      * @param interactor The interactor issuing the interaction.
      * @param interactable The interactable undergoing the action.
      */
     release(interactor: Interactor) {
+        if (interactor.interactable === this) {
+            /* Clears the interactor state, and releases this object */
+            interactor.stopInteraction();
+            return;
+        }
         const index = this._grabData.findIndex((v) => v.interactor === interactor);
         const grab = this._grabData[index];
         if (!grab) return;
@@ -452,14 +797,41 @@ export class Grabbable extends Component {
         const released = !this._grabData.length;
 
         if (!released) {
-            this.initializeGrab();
-        } else if (this.canThrow) {
+            /* Climbable objects never move, nothing to initialize */
+            if (!this.climbable) {
+                this.initializeGrab();
+            }
+        } else {
+            this._pulling = false;
+            this._setConstraintsManaged(false);
+            if (this._isPhysicsDriven()) {
+                this._physx!.gravity = this._hadGravity;
+            }
+        }
+        if (released && this.canThrow && !this.climbable) {
             this.throw(interactor);
         }
 
         this.onGrabPointRelease.notify(this, handle);
         if (released) {
             this.onGrabEnd.notify(this);
+            Grabbable.OnAnyGrabEnd.notify(this);
+        }
+        /* Thrown objects keep moving for a while */
+        this.markMoved();
+    }
+
+    /**
+     * Notify that this object moved, such that its grab points are re-indexed
+     * by the {@link GrabPointRegistry}.
+     *
+     * @note Automatically called while grabbed and once released. Call it
+     * after moving the object from code, e.g., when respawning it.
+     */
+    markMoved() {
+        const registry = GrabPointRegistry.get(this.scene as Scene);
+        for (const point of this.grabPoints) {
+            registry.wake(point);
         }
     }
 
@@ -478,6 +850,21 @@ export class Grabbable extends Component {
         return this._grabData[1];
     }
 
+    /** Mass, in **kilograms**, used by the weight model. */
+    get effectiveMass(): number {
+        return this.mass > 0.0 ? this.mass : this._physx?.mass ?? 0.0;
+    }
+
+    /** `true` if the object is too heavy to be lifted by the current grab. */
+    get isDragOnly(): boolean {
+        return (
+            this.useWeight &&
+            this._grabData.length === 1 &&
+            this.twoHandMass >= 0.0 &&
+            this.effectiveMass > this.twoHandMass
+        );
+    }
+
     protected computeTransform(
         out: quat2,
         pivotOut: quat,
@@ -494,7 +881,8 @@ export class Grabbable extends Component {
         }
 
         switch (this.transformType) {
-            case GrabTransformType.Hand: {
+            case GrabTransformType.Hand:
+            case GrabTransformType.Physics: {
                 if (secondary) {
                     const interactor = this.secondaryGrab?.interactor.object ?? secondary;
                     this.transformDualHand(out, interactor, source, target);
@@ -612,33 +1000,35 @@ export class Grabbable extends Component {
      * @note Triggered when single grab occurs, or when second hand is released.
      */
     protected initializeGrab() {
-        this._setKinematicState(true);
+        if (this._isPhysicsDriven()) {
+            /* Gravity would make the object sag below the hand */
+            this._physx!.gravity = false;
+        } else {
+            this._setKinematicState(true);
+        }
         this._lerp = true;
 
         quat2.identity(this._relativeGrabTransform);
         quat.identity(this._pivotGrabTransform);
 
+        if (this._grabData.length > 2) {
+            /* The pose is solved from all anchors, no relative transform needed */
+            this.object.getRotationWorld(this._solverRotation);
+            return;
+        }
+
         const primaryHandle = this.grabPoints[this._grabData[0].handleId];
-        const primaryInteractor = this._grabData[0].interactor.object;
 
         /* Switch between handle or interactor for snapping */
-        const source =
-            primaryHandle.snap != GrabSnapMode.None
-                ? primaryHandle.object
-                : primaryInteractor;
+        const source = grabSource(primaryHandle, this._grabData[0].interactor);
 
-        let secondaryInteractor: Object3D | null = null;
         let target: Object3D | null = null;
         if (this._grabData.length > 1) {
             const secondaryHandle = this.grabPoints[this._grabData[1].handleId];
-            secondaryInteractor = this._grabData[1].interactor.object;
+            const secondaryInteractor = this._grabData[1].interactor;
+            target = grabSource(secondaryHandle, secondaryInteractor);
 
-            target =
-                secondaryHandle.snap != GrabSnapMode.None
-                    ? secondaryHandle.object
-                    : secondaryInteractor;
-
-            const interactorUp = secondaryInteractor!.getUpWorld(TempVec3.get());
+            const interactorUp = secondaryInteractor.object.getUpWorld(TempVec3.get());
             this._useUpOrientation = vec3.dot(interactorUp, UP) >= 0.5;
             TempVec3.free();
         }
@@ -664,13 +1054,230 @@ export class Grabbable extends Component {
         TempDualQuat.free(2);
     }
 
+    /**
+     * Solve the world transform best matching all the grab anchors,
+     * and notify {@link onGrabsSolved}.
+     *
+     * @param out The destination transform, in **world space**.
+     */
+    private _solveGrabs(out: quat2) {
+        const count = this._grabData.length;
+        for (let i = this._solverSources.length; i < count; ++i) {
+            this._solverSources.push(vec3.create());
+            this._solverTargets.push(vec3.create());
+        }
+
+        /* Anchors are stored in local space, and must account for the scaling */
+        const scale = this.object.getScalingWorld(TempVec3.get());
+        for (let i = 0; i < count; ++i) {
+            const grab = this._grabData[i];
+            vec3.multiply(this._solverSources[i], grab.localAnchor, scale);
+            grab.interactor.object.getPositionWorld(this._solverTargets[i]);
+        }
+
+        const rotation = this._solverRotation;
+        const position = TempVec3.get();
+        fitRigidTransform(
+            rotation,
+            position,
+            this._solverSources,
+            this._solverTargets,
+            count
+        );
+        quat2.fromRotationTranslation(out, rotation, position);
+
+        this._contributions.length = count;
+        const anchor = TempVec3.get();
+        for (let i = 0; i < count; ++i) {
+            const grab = this._grabData[i];
+            vec3.transformQuat(anchor, this._solverSources[i], rotation);
+            vec3.add(anchor, anchor, position);
+
+            const contribution = (this._contributions[i] ??= {} as GrabContribution);
+            contribution.interactor = grab.interactor;
+            contribution.grabPoint = this.grabPoints[grab.handleId];
+            contribution.residual = vec3.distance(anchor, this._solverTargets[i]);
+        }
+        TempVec3.free(3);
+
+        this.onGrabsSolved.notify(this, this._contributions);
+    }
+
+    /**
+     * Slow down the target transform based on the object mass.
+     *
+     * @param position The target position, overwritten.
+     * @param rotation The target rotation, overwritten.
+     * @param currentPos The current position.
+     * @param currentRot The current rotation.
+     * @param worldSpace `true` if the transforms are in **world space**.
+     * @param dt The delta time, in **seconds**.
+     */
+    private _applyWeight(
+        position: vec3,
+        rotation: quat,
+        currentPos: vec3,
+        currentRot: quat,
+        worldSpace: boolean,
+        dt: number
+    ) {
+        const mass = this.effectiveMass;
+        if (mass <= EPSILON) {
+            return;
+        }
+
+        /* Height is only meaningful in world space */
+        if (worldSpace && this.isDragOnly) {
+            position[1] = currentPos[1];
+            quat.copy(rotation, currentRot);
+        }
+
+        const strength = (this.handStrength * this._grabData.length) / mass;
+        if (strength >= 1.0) {
+            return;
+        }
+
+        const t = 1.0 - Math.exp(-WEIGHT_RESPONSIVENESS * strength * dt);
+        vec3.lerp(position, currentPos, position, t);
+
+        const maxAngle = toRad(WEIGHT_MAX_ANGULAR_SPEED) * strength * dt;
+        const angle = quat.getAngle(currentRot, rotation);
+        if (angle > maxAngle) {
+            quat.slerp(rotation, currentRot, rotation, maxAngle / angle);
+            quat.normalize(rotation, rotation);
+        }
+    }
+
+    /** `true` if the grabbed object is driven using forces. */
+    private _isPhysicsDriven() {
+        return this.transformType === GrabTransformType.Physics && !!this._physx;
+    }
+
+    /**
+     * Drive the object towards a target using a damped spring.
+     *
+     * @param position The target position.
+     * @param rotation The target rotation.
+     * @param local `true` if the target is in **local space**, `false` for **world space**.
+     */
+    private _drive(position: vec3, rotation: quat, local: boolean) {
+        const physx = this._physx!;
+        const parent = this.object.parent;
+        if (local && parent) {
+            parent.transformPointWorld(position);
+            const parentRot = parent.getRotationWorld(TempQuat.get());
+            quat.multiply(rotation, parentRot, rotation);
+            TempQuat.free();
+        }
+
+        const stiffness = this.physicsStiffness;
+        const damping = this.physicsDamping;
+        const maxAcceleration = this.physicsMaxForce / Math.max(physx.mass, EPSILON);
+
+        /* Linear: the force is clamped, such that heavy objects lag behind */
+        const velocity = physx.getLinearVelocity(TempVec3.get());
+        const force = this.object.getPositionWorld(TempVec3.get());
+        vec3.subtract(force, position, force);
+        vec3.scale(force, force, stiffness);
+        vec3.scaleAndAdd(force, force, velocity, -damping);
+        vec3.scale(force, force, physx.mass);
+        const length = vec3.length(force);
+        if (length > this.physicsMaxForce) {
+            vec3.scale(force, force, this.physicsMaxForce / length);
+        }
+        physx.addForce(force, ForceMode.Force);
+
+        /* Angular: world space rotation error, taking the shortest path */
+        const error = this.object.getRotationWorld(TempQuat.get());
+        quat.invert(error, error);
+        quat.multiply(error, rotation, error);
+        if (error[3] < 0.0) {
+            quat.scale(error, error, -1.0);
+        }
+        error[3] = Math.min(error[3], 1.0);
+
+        const torque = TempVec3.get();
+        const angle = quat.getAxisAngle(torque, error);
+        vec3.scale(torque, torque, angle * stiffness);
+        physx.getAngularVelocity(velocity);
+        vec3.scaleAndAdd(torque, torque, velocity, -damping);
+        const torqueLength = vec3.length(torque);
+        if (torqueLength > maxAcceleration) {
+            vec3.scale(torque, torque, maxAcceleration / torqueLength);
+        }
+        physx.addTorque(torque, ForceMode.Acceleration);
+
+        TempVec3.free(3);
+        TempQuat.free();
+    }
+
+    /** `true` if any constraint must be applied to the grabbed transform. */
+    private _isConstrained() {
+        return !!(this._translationConstraint?.active || this._rotationConstraint?.active);
+    }
+
+    /**
+     * Apply the constraints found on this object.
+     *
+     * @param position The position to constrain, in **local space**.
+     * @param rotation The rotation to constrain, in **local space**.
+     */
+    private _constrain(position: vec3, rotation: quat) {
+        let atLimit = false;
+        if (this._translationConstraint?.active) {
+            const unconstrained = vec3.copy(TempVec3.get(), position);
+            this._translationConstraint.constrain(position, position);
+            atLimit = vec3.distance(unconstrained, position) > LIMIT_EPSILON_DIST;
+            TempVec3.free();
+        }
+        if (this._rotationConstraint?.active) {
+            const unconstrained = quat.copy(TempQuat.get(), rotation);
+            this._rotationConstraint.constrain(rotation, rotation);
+            atLimit ||= quat.getAngle(unconstrained, rotation) > toRad(LIMIT_EPSILON_ANGLE);
+            TempQuat.free();
+        }
+
+        if (atLimit && !this._atLimit) {
+            this.onConstraintLimit.notify(this);
+        }
+        this._atLimit = atLimit;
+    }
+
+    /**
+     * Notify the constraints that they are applied by this grabbable,
+     * preventing them from clamping the transform on their own.
+     */
+    private _setConstraintsManaged(managed: boolean) {
+        if (this._translationConstraint) {
+            this._translationConstraint.setManagedBy(managed ? this : null);
+        }
+        if (this._rotationConstraint) {
+            this._rotationConstraint.setManagedBy(managed ? this : null);
+        }
+    }
+
+    /**
+     * Transform a world space position and rotation into the parent space.
+     *
+     * @param position The position to transform.
+     * @param rotation The rotation to transform.
+     */
+    private _worldToLocal(position: vec3, rotation: quat) {
+        const parent = this.object.parent;
+        if (!parent) {
+            return;
+        }
+
+        parent.transformPointInverseWorld(position);
+        const inverse = parent.getRotationWorld(TempQuat.get());
+        quat.invert(inverse, inverse);
+        quat.multiply(rotation, inverse, rotation);
+        quat.normalize(rotation, rotation);
+        TempQuat.free();
+    }
+
     private _setKinematicState(enable: boolean) {
         if (!this._physx) return;
-        if (enable === this._physx.kinematic) return;
-
-        this._physx.kinematic = enable;
-        /* Required to change the physx object state */
-        this._physx.active = false;
-        this._physx.active = true;
+        setPhysxKinematic(this._physx, enable);
     }
 }
@@ -0,0 +1,293 @@
+import {
+    Component,
+    Emitter,
+    InputComponent,
+    Object3D,
+    property,
+    Scene,
+} from '@wonderlandengine/api';
+
+import {InteractorInput} from './interactor-input.js';
+import {componentError, enumStringKeys} from '../utils/wle.js';
+
+/** Constants */
+
+/** Number of joints of a WebXR hand. */
+const JointCount = 25;
+
+/**
+ * Index of the WebXR hand joints used for gestures.
+ *
+ * This follows the [XRHand](https://developer.mozilla.org/en-US/docs/Web/API/XRHand)
+ * iteration order.
+ */
+enum Joint {
+    Wrist = 0,
+    ThumbTip = 4,
+    IndexMetacarpal = 5,
+    IndexTip = 9,
+    MiddleMetacarpal = 10,
+    MiddleTip = 14,
+    RingMetacarpal = 15,
+    RingTip = 19,
+    PinkyMetacarpal = 20,
+    PinkyTip = 24,
+}
+
+/** Index of the wrist joint, whose pose is used as the input pose. */
+const WristIndex: number = Joint.Wrist;
+
+/** Pairs of fingertip / metacarpal joints, used to compute the fist curl. */
+const FingerJoints = [
+    [Joint.IndexTip, Joint.IndexMetacarpal],
+    [Joint.MiddleTip, Joint.MiddleMetacarpal],
+    [Joint.RingTip, Joint.RingMetacarpal],
+    [Joint.PinkyTip, Joint.PinkyMetacarpal],
+];
+
+/**
+ * Gesture used by {@link HandInteractorInput} to grab.
+ */
+export enum HandGrabGesture {
+    /** Grab while the thumb and index tips touch. */
+    Pinch = 0,
+    /** Grab while all fingers are curled. */
+    Fist,
+    /** Grab using either {@link HandGrabGesture.Pinch} or {@link HandGrabGesture.Fist}. */
+    PinchOrFist,
+}
+/** List of string keys for {@link HandGrabGesture}. */
+export const HandGrabGestureNames = enumStringKeys(HandGrabGesture);
+
+/**
+ * Squared distance between two joints.
+ *
+ * @param joints Joint positions, flattened.
+ * @param a Index of the first joint.
+ * @param b Index of the second joint.
+ */
+function jointSqrDistance(joints: Float32Array, a: number, b: number) {
+    const x = joints[a * 3] - joints[b * 3];
+    const y = joints[a * 3 + 1] - joints[b * 3 + 1];
+    const z = joints[a * 3 + 2] - joints[b * 3 + 2];
+    return x * x + y * y + z * z;
+}
+
+/**
+ * Articulated hands inputs for {@link Interactor}.
+ *
+ * The grab is derived from the [WebXR hand](https://developer.mozilla.org/en-US/docs/Web/API/XRHand)
+ * joint poses, using {@link gesture}. Start and end thresholds are distinct
+ * in order to prevent the grab from flickering.
+ *
+ * Recorded joint data can be fed using {@link updateJoints}, e.g.,
+ *
+ * ```js
+ * // 25 joints, in XRHand order, flattened as `x, y, z`
+ * const joints = new Float32Array(recording.frames[i]);
+ * input.updateJoints(joints);
+ * ```
+ */
+export class HandInteractorInput extends Component implements InteractorInput {
+    static TypeName = 'hand-interactor-input';
+
+    /** Properties */
+
+    /** Object with a native input component, tracking a hand. */
+    @property.object({required: true})
+    inputObject!: Object3D;
+
+    /** Gesture used to grab, defaults to {@link HandGrabGesture.PinchOrFist}. */
+    @property.enum(HandGrabGestureNames, HandGrabGesture.PinchOrFist)
+    gesture = HandGrabGesture.PinchOrFist;
+
+    /** Distance, in **meters**, between the thumb and index tips to start pinching. */
+    @property.float(0.015)
+    pinchStartDistance = 0.015;
+
+    /** Distance, in **meters**, between the thumb and index tips to stop pinching. */
+    @property.float(0.03)
+    pinchEndDistance = 0.03;
+
+    /**
+     * Average distance, in **meters**, between the fingertips and their
+     * metacarpal to start the fist.
+     */
+    @property.float(0.05)
+    fistStartDistance = 0.05;
+
+    /**
+     * Average distance, in **meters**, between the fingertips and their
+     * metacarpal to stop the fist.
+     */
+    @property.float(0.07)
+    fistEndDistance = 0.07;
+
+    /* Public attributes */
+
+    onGrabStart = new Emitter();
+    onGrabEnd = new Emitter();
+
+    /* Private attributes */
+
+    private _input!: InputComponent;
+
+    /** Joint positions, flattened. */
+    private readonly _joints = new Float32Array(JointCount * 3);
+
+    private _pinching = false;
+    private _fist = false;
+    private _grabbing = false;
+
+    /** `true` if the hand was tracked during the previous frame. */
+    private _tracked = false;
+
+    private _xrPose: XRPose | null = null;
+
+    /** @hidden */
+    private readonly _onPreRender = () => {
+        this._xrPose = null;
+
+        const hand = this._input.xrInputSource?.hand;
+        const frame = this.engine.xr?.frame;
+        if (!hand || !frame?.getJointPose) {
+            this._lostTracking();
+            return;
+        }
+
+        const xr = this.engine.xr!;
+        const referenceSpace =
+            xr.referenceSpaceForType('local-floor') ?? xr.referenceSpaceForType('local');
+        if (!referenceSpace) {
+            this._lostTracking();
+            return;
+        }
+
+        let i = 0;
+        for (const space of hand.values()) {
+            const pose = frame.getJointPose(space, referenceSpace);
+            if (!pose) {
+                this._lostTracking();
+                return;
+            }
+            if (i === WristIndex) {
+                this._xrPose = pose;
+            }
+
+            const position = pose.transform.position;
+            this._joints[i * 3] = position.x;
+            this._joints[i * 3 + 1] = position.y;
+            this._joints[i * 3 + 2] = position.z;
+            if (++i === JointCount) {
+                break;
+            }
+        }
+
+        this._tracked = true;
+        this.updateJoints(this._joints);
+    };
+
+    getInputSourceXR() {
+        return this._input.xrInputSource;
+    }
+
+    /** @override */
+    onActivate(): void {
+        const input = this.inputObject.getComponent(InputComponent);
+        if (!input) {
+            throw new Error(
+                componentError(this, 'inputObject does not have a InputComponent')
+            );
+        }
+        this._input = input;
+
+        const scene = this.scene as Scene;
+        scene.onPreRender.add(this._onPreRender);
+    }
+
+    /** @override */
+    onDeactivate(): void {
+        const scene = this.scene as Scene;
+        scene.onPreRender.remove(this._onPreRender);
+    }
+
+    /**
+     * Update the gestures from joint positions, and notify
+     * {@link onGrabStart} / {@link onGrabEnd} accordingly.
+     *
+     * @remarks
+     * This method is automatically called with the tracked hand. Call it
+     * with recorded data to emulate a hand.
+     *
+     * @param joints The 25 joint positions, in [XRHand](https://developer.mozilla.org/en-US/docs/Web/API/XRHand)
+     *     order, flattened as `x, y, z`.
+     */
+    updateJoints(joints: ArrayLike<number>) {
+        if (joints !== this._joints) {
+            this._joints.set(joints);
+        }
+
+        const pinch = jointSqrDistance(this._joints, Joint.ThumbTip, Joint.IndexTip);
+        const pinchThreshold = this._pinching
+            ? this.pinchEndDistance
+            : this.pinchStartDistance;
+        this._pinching = pinch < pinchThreshold * pinchThreshold;
+
+        let curl = 0.0;
+        for (const [tip, metacarpal] of FingerJoints) {
+            curl += Math.sqrt(jointSqrDistance(this._joints, tip, metacarpal));
+        }
+        curl /= FingerJoints.length;
+        this._fist = curl < (this._fist ? this.fistEndDistance : this.fistStartDistance);
+
+        switch (this.gesture) {
+            case HandGrabGesture.Pinch:
+                this._setGrabbing(this._pinching);
+                break;
+            case HandGrabGesture.Fist:
+                this._setGrabbing(this._fist);
+                break;
+            case HandGrabGesture.PinchOrFist:
+                this._setGrabbing(this._pinching || this._fist);
+                break;
+        }
+    }
+
+    /** `true` if the thumb and index tips are currently pinching. */
+    get isPinching() {
+        return this._pinching;
+    }
+
+    /** `true` if the hand is currently making a fist. */
+    get isFist() {
+        return this._fist;
+    }
+
+    /** Wrist XR pose. */
+    get xrPose() {
+        return this._xrPose;
+    }
+
+    private _setGrabbing(grabbing: boolean) {
+        if (grabbing === this._grabbing) {
+            return;
+        }
+        this._grabbing = grabbing;
+        if (grabbing) {
+            this.onGrabStart.notify();
+        } else {
+            this.onGrabEnd.notify();
+        }
+    }
+
+    /** Release any ongoing grab once the hand isn't tracked anymore. */
+    private _lostTracking() {
+        if (!this._tracked) {
+            return;
+        }
+        this._tracked = false;
+        this._pinching = false;
+        this._fist = false;
+        this._setGrabbing(false);
+    }
+}
@@ -0,0 +1,118 @@
+import {Component, Object3D, property} from '@wonderlandengine/api';
+import {quat} from 'gl-matrix';
+
+import {mirrorRotation} from '../utils/math.js';
+import {enumStringKeys} from '../utils/wle.js';
+
+/**
+ * Hand used by an {@link Interactor}, or targeted by a {@link HandPose}.
+ */
+export enum Handedness {
+    /** Unspecified. */
+    None = 0,
+    Left,
+    Right,
+}
+/** List of string keys for {@link Handedness}. */
+export const HandednessNames = enumStringKeys(Handedness);
+
+/**
+ * Hand pose, i.e., per-joint rotations, applied to the hand of an
+ * {@link Interactor} grabbing a {@link GrabPoint}.
+ *
+ * The pose is authored as a hierarchy of joints, whose **local** rotations
+ * are read once the component starts. Joints are matched by name with the
+ * interactor {@link Interactor.handSkeleton}.
+ *
+ * When used by the opposite hand, the pose is mirrored across the YZ plane.
+ * Left and right skeletons are thus expected to mirror each other, with
+ * the same joint names.
+ *
+ * @example
+ * ```js
+ * // Programmatically author a pose
+ * const pose = object.addComponent(HandPose, {handedness: Handedness.Right});
+ * pose.setRotation('index-finger-phalanx-proximal', quat.fromEuler(quat.create(), 60, 0, 0));
+ * ```
+ */
+export class HandPose extends Component {
+    static TypeName = 'hand-pose';
+
+    /** Properties */
+
+    /** Hand the pose is authored for, defaults to {@link Handedness.Right}. */
+    @property.enum(HandednessNames, Handedness.Right)
+    handedness = Handedness.Right;
+
+    /**
+     * Root of the posed joint hierarchy.
+     *
+     * @note If not provided, this object is used as the root.
+     */
+    @property.object()
+    root: Object3D | null = null;
+
+    /** Private Attributes */
+
+    /** Local rotation of each joint, by name. */
+    private _rotations = new Map<string, quat>();
+
+    /** @override */
+    start(): void {
+        const read = (object: Object3D) => {
+            for (const child of object.children) {
+                if (!this._rotations.has(child.name)) {
+                    this.setRotation(child.name, child.getRotationLocal());
+                }
+                read(child);
+            }
+        };
+        read(this.root ?? this.object);
+    }
+
+    /**
+     * Set the local rotation of a joint.
+     *
+     * @param name The joint name.
+     * @param rotation The joint rotation, in the {@link handedness} hand.
+     */
+    setRotation(name: string, rotation: quat) {
+        let value = this._rotations.get(name);
+        if (!value) {
+            value = quat.create();
+            this._rotations.set(name, value);
+        }
+        quat.copy(value, rotation);
+    }
+
+    /**
+     * Get the local rotation of a joint, mirrored if needed.
+     *
+     * @param out The destination rotation.
+     * @param name The joint name.
+     * @param handedness The hand the rotation is applied to.
+     * @returns `true` if the joint is part of the pose, `false` otherwise.
+     */
+    getRotation(out: quat, name: string, handedness: Handedness): boolean {
+        const rotation = this._rotations.get(name);
+        if (!rotation) {
+            return false;
+        }
+
+        const mirrored =
+            handedness !== Handedness.None &&
+            this.handedness !== Handedness.None &&
+            handedness !== this.handedness;
+        if (mirrored) {
+            mirrorRotation(out, rotation);
+        } else {
+            quat.copy(out, rotation);
+        }
+        return true;
+    }
+
+    /** Names of the joints part of this pose. */
+    get joints(): IterableIterator<string> {
+        return this._rotations.keys();
+    }
+}
@@ -0,0 +1,283 @@
+import {Component, Emitter, property, Scene} from '@wonderlandengine/api';
+import {quat, vec3} from 'gl-matrix';
+
+import {Grabbable, PivotAxis, PivotAxisNames} from './grabbable.js';
+import {RotationConstraint} from '../constraints.js';
+import {HistoryTracker} from '../history-tracker.js';
+import {swingTwist, toDegree, toRad} from '../utils/math.js';
+import {componentError} from '../utils/wle.js';
+import {TempQuat, TempVec3} from '../internal-constants.js';
+
+/** Constants */
+
+/** Angular speed, in **degrees per second**, under which a released hinge stops. */
+const REST_SPEED = 0.5;
+
+/** Local rotation axis of each {@link PivotAxis}. */
+const Axes = [vec3.fromValues(1, 0, 0), vec3.fromValues(0, 1, 0), vec3.fromValues(0, 0, 1)];
+
+/**
+ * Signed angle, in **degrees**, of a local rotation around an axis.
+ *
+ * @param rotation The local rotation.
+ * @param axis The normalized axis.
+ */
+function twistAngle(rotation: quat, axis: vec3) {
+    const swing = TempQuat.get();
+    const twist = TempQuat.get();
+    const angle = swingTwist(swing, twist, rotation, axis);
+    TempQuat.free(2);
+    return toDegree(angle);
+}
+
+/**
+ * Physical behavior of a door, a gate, or a lid, grabbed using
+ * {@link GrabTransformType.AroundPivot}.
+ *
+ * Once released, the hinge:
+ * - Keeps the angular momentum it had in hand
+ * - Slows down using {@link damping}
+ * - Optionally returns to {@link restAngle}, using {@link spring}
+ * - Stops at the limits of the object {@link RotationConstraint}, if any
+ *
+ * With {@link latch} enabled, the hinge locks once it comes back within {@link latchAngle}
+ * of {@link closedAngle}. It can then only be opened by turning the handle, i.e., the
+ * {@link Grabbable.secondaryPivot}, by at least {@link unlatchAngle}.
+ *
+ * @example
+ * ```js
+ * const hinge = door.getComponent(Hinge);
+ * hinge.onLatch.add(() => sound.play());
+ * ```
+ *
+ * @note Disable {@link Grabbable.canThrow}: the hinge handles the release itself.
+ */
+export class Hinge extends Component {
+    static TypeName = 'hinge';
+
+    /** Properties */
+
+    /** Rotation axis, in **local space**. */
+    @property.enum(PivotAxisNames, PivotAxis.Y)
+    axis = PivotAxis.Y;
+
+    /** Rate, in **1 / seconds**, at which the angular speed decreases once released. */
+    @property.float(2.0)
+    damping = 2.0;
+
+    /**
+     * Stiffness, in **1 / seconds²**, of the spring pulling the hinge towards {@link restAngle}.
+     *
+     * @note Use `0` to disable the spring.
+     */
+    @property.float(0.0)
+    spring = 0.0;
+
+    /** Angle, in **degrees**, towards which the {@link spring} pulls. */
+    @property.float(0.0)
+    restAngle = 0.0;
+
+    /** If `true`, the hinge locks once closed. */
+    @property.bool(false)
+    latch = false;
+
+    /** Angle, in **degrees**, at which the hinge is closed. */
+    @property.float(0.0)
+    closedAngle = 0.0;
+
+    /** Tolerance, in **degrees**, around {@link closedAngle} in which the hinge latches. */
+    @property.float(2.0)
+    latchAngle = 2.0;
+
+    /**
+     * Angle, in **degrees**, by which the handle must be turned to unlatch.
+     *
+     * @note Without {@link Grabbable.secondaryPivot}, grabbing unlatches.
+     */
+    @property.float(30.0)
+    unlatchAngle = 30.0;
+
+    /** Public Attributes */
+
+    /** Notifies once the hinge latches. */
+    onLatch: Emitter<[this]> = new Emitter();
+
+    /** Notifies once the hinge unlatches. */
+    onUnlatch: Emitter<[this]> = new Emitter();
+
+    /** Private Attributes */
+
+    private _grabbable!: Grabbable;
+    private _constraint: RotationConstraint | null = null;
+
+    /** Grab history, used to compute the momentum on release. */
+    private _history = new HistoryTracker();
+
+    /** Angular speed, in **degrees per second**. */
+    private _speed = 0.0;
+
+    private _latched = false;
+
+    /** @override */
+    start() {
+        const grabbable = this.object.getComponent(Grabbable);
+        if (!grabbable) {
+            throw new Error(componentError(this, 'grabbable not found'));
+        }
+        this._grabbable = grabbable;
+        this._constraint = this.object.getComponent(RotationConstraint);
+
+        if (this.latch && Math.abs(this.angle - this.closedAngle) <= this.latchAngle) {
+            this._latched = true;
+        }
+    }
+
+    /** @override */
+    onActivate(): void {
+        this._grabbable.onGrabStart.add(this._onGrabStart);
+        this._grabbable.onGrabEnd.add(this._onGrabEnd);
+        (this.scene as Scene).onPreRender.add(this._onPreRender);
+    }
+
+    /** @override */
+    onDeactivate(): void {
+        if (!this._grabbable.isDestroyed) {
+            this._grabbable.onGrabStart.remove(this._onGrabStart);
+            this._grabbable.onGrabEnd.remove(this._onGrabEnd);
+        }
+        (this.scene as Scene).onPreRender.remove(this._onPreRender);
+    }
+
+    /** @override */
+    update(dt: number) {
+        if (this._grabbable.isGrabbed) {
+            this._history.update(this.object, dt);
+            if (this._latched && this._isHandleTurned()) {
+                this._setLatched(false);
+            }
+            return;
+        }
+        if (this._latched) {
+            return;
+        }
+
+        const angle = this.angle;
+        const acceleration =
+            -this.spring * (angle - this.restAngle) - this.damping * this._speed;
+        this._speed += acceleration * dt;
+        if (Math.abs(this._speed) < REST_SPEED && Math.abs(acceleration) < REST_SPEED) {
+            this._speed = 0.0;
+            return;
+        }
+
+        const target = angle + this._speed * dt;
+        const reached = this._setAngle(target);
+        if (Math.abs(reached - target) > 1e-3) {
+            /* Hit a constraint limit */
+            this._speed = 0.0;
+        }
+
+        /* Only latch while closing. Fast hinges can skip the latch range
+         * within a single frame, and must latch when crossing the closed angle */
+        const before = angle - this.closedAngle;
+        const after = reached - this.closedAngle;
+        const closing = Math.abs(after) < Math.abs(before);
+        const crossed = before * after < 0.0;
+        if (this.latch && (crossed || (closing && Math.abs(after) <= this.latchAngle))) {
+            this._setAngle(this.closedAngle);
+            this._setLatched(true);
+        }
+    }
+
+    /** Current angle, in **degrees**, around {@link axis}. */
+    get angle(): number {
+        const rotation = this.object.getRotationLocal(TempQuat.get());
+        const angle = twistAngle(rotation, Axes[this.axis]);
+        TempQuat.free();
+        return angle;
+    }
+
+    /** Current angular speed, in **degrees per second**, once released. */
+    get angularSpeed(): number {
+        return this._speed;
+    }
+
+    /** `true` if the hinge is currently latched. */
+    get isLatched(): boolean {
+        return this._latched;
+    }
+
+    /**
+     * Rotate the hinge, while respecting the rotation constraint.
+     *
+     * @param angle The angle, in **degrees**.
+     * @returns The angle reached, in **degrees**.
+     */
+    private _setAngle(angle: number): number {
+        const rotation = quat.setAxisAngle(TempQuat.get(), Axes[this.axis], toRad(angle));
+        if (this._constraint?.active) {
+            this._constraint.constrain(rotation, rotation);
+            angle = twistAngle(rotation, Axes[this.axis]);
+        }
+        this.object.setRotationLocal(rotation);
+        TempQuat.free();
+        this._grabbable.markMoved();
+        return angle;
+    }
+
+    private _setLatched(latched: boolean) {
+        this._latched = latched;
+        this._speed = 0.0;
+        if (latched) {
+            this.onLatch.notify(this);
+        } else {
+            this.onUnlatch.notify(this);
+        }
+    }
+
+    /** `true` if the handle is turned enough to unlatch. */
+    private _isHandleTurned(): boolean {
+        const handle = this._grabbable.secondaryPivot;
+        if (!handle) {
+            return true;
+        }
+        const rotation = handle.getRotationLocal(TempQuat.get());
+        const angle = twistAngle(rotation, Axes[this._grabbable.secondaryPivotAxis]);
+        TempQuat.free();
+        return Math.abs(angle) >= this.unlatchAngle;
+    }
+
+    private _onGrabStart = () => {
+        this._history.reset(this.object);
+        this._speed = 0.0;
+    };
+
+    private _onGrabEnd = () => {
+        if (this._latched) {
+            return;
+        }
+        if (this.latch && Math.abs(this.angle - this.closedAngle) <= this.latchAngle) {
+            /* Released closed, e.g., pushed shut by hand */
+            this._setAngle(this.closedAngle);
+            this._setLatched(true);
+            return;
+        }
+        /* Keep the momentum around the hinge axis, in world space */
+        const angular = this._history.angular(TempVec3.get());
+        const axis = vec3.copy(TempVec3.get(), Axes[this.axis]);
+        if (this.object.parent) {
+            this.object.parent.transformVectorWorld(axis);
+            vec3.normalize(axis, axis);
+        }
+        this._speed = toDegree(vec3.dot(angular, axis));
+        TempVec3.free(2);
+    };
+
+    /** @hidden */
+    private readonly _onPreRender = () => {
+        /* Runs after the grabbable update, to keep the latched hinge closed in hand */
+        if (this._latched && this._grabbable.isGrabbed) {
+            this._setAngle(this.closedAngle);
+        }
+    };
+}
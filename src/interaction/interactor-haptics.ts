@@ -0,0 +1,246 @@
+import {Component, Object3D, property} from '@wonderlandengine/api';
+
+import {Grabbable} from './grabbable.js';
+import {Interactor} from './interactor.js';
+import {DefaultInteractorInput} from './interactor-input.js';
+import {SnapZone} from './snap-zone.js';
+import {componentError} from '../utils/wle.js';
+
+/**
+ * Haptic device playing the pulses of {@link InteractorHaptics}.
+ *
+ * Matches the WebXR [GamepadHapticActuator](https://developer.mozilla.org/en-US/docs/Web/API/GamepadHapticActuator),
+ * and can be implemented to record or forward pulses, e.g.,
+ *
+ * ```js
+ * const pulses = [];
+ * haptics.actuator = {
+ *     pulse: (intensity, duration) => pulses.push({intensity, duration}),
+ * };
+ * ```
+ */
+export interface HapticActuator {
+    /**
+     * Play a pulse.
+     *
+     * @param intensity The intensity, in the range `[0, 1]`.
+     * @param duration The duration, in **milliseconds**.
+     */
+    pulse(intensity: number, duration: number): unknown;
+}
+
+/**
+ * Haptic feedback for the interactions of an {@link Interactor}.
+ *
+ * Pulses are played on hover, grab, release, snap, and once the grabbed
+ * transform hits a constraint limit. Set an intensity to `0` to disable
+ * the pulse of an event.
+ *
+ * Continuous feedback can be played using {@link rumble}, e.g.,
+ *
+ * ```js
+ * const haptics = interactor.object.getComponent(InteractorHaptics);
+ * lever.onValueChanged.add((value) => haptics.rumble(value));
+ * ```
+ *
+ * By default, pulses are played on the first haptic actuator of the
+ * {@link DefaultInteractorInput} gamepad. Use {@link actuator} to provide
+ * another device.
+ */
+export class InteractorHaptics extends Component {
+    static TypeName = 'interactor-haptics';
+
+    /** Properties */
+
+    /**
+     * Object with the interactor.
+     *
+     * @note If no object is provided, the interactor is searched on this object.
+     */
+    @property.object()
+    interactorObject: Object3D | null = null;
+
+    /**
+     * Intensity, in the range `[0, 1]`, of the pulse played on hover.
+     *
+     * @note Requires {@link Interactor.trackHover}.
+     */
+    @property.float(0.1)
+    hoverIntensity = 0.1;
+
+    /** Duration, in **seconds**, of the pulse played on hover. */
+    @property.float(0.01)
+    hoverDuration = 0.01;
+
+    /** Intensity, in the range `[0, 1]`, of the pulse played on grab. */
+    @property.float(0.5)
+    grabIntensity = 0.5;
+
+    /** Duration, in **seconds**, of the pulse played on grab. */
+    @property.float(0.03)
+    grabDuration = 0.03;
+
+    /** Intensity, in the range `[0, 1]`, of the pulse played on release. */
+    @property.float(0.2)
+    releaseIntensity = 0.2;
+
+    /** Duration, in **seconds**, of the pulse played on release. */
+    @property.float(0.02)
+    releaseDuration = 0.02;
+
+    /**
+     * Intensity, in the range `[0, 1]`, of the pulse played once the released
+     * grabbable is snapped into a {@link SnapZone}.
+     *
+     * @note Replaces the release pulse.
+     */
+    @property.float(0.6)
+    snapIntensity = 0.6;
+
+    /** Duration, in **seconds**, of the pulse played on snap. */
+    @property.float(0.05)
+    snapDuration = 0.05;
+
+    /**
+     * Intensity, in the range `[0, 1]`, of the pulse played once the grabbed
+     * transform hits a constraint limit.
+     */
+    @property.float(0.3)
+    limitIntensity = 0.3;
+
+    /** Duration, in **seconds**, of the pulse played on constraint limit. */
+    @property.float(0.02)
+    limitDuration = 0.02;
+
+    /** Multiplier applied to the {@link rumble} value. */
+    @property.float(1.0)
+    rumbleIntensity = 1.0;
+
+    /** Public Attributes */
+
+    /**
+     * Device playing the pulses.
+     *
+     * @note If `null`, the first haptic actuator of the interactor
+     * gamepad is used.
+     */
+    actuator: HapticActuator | null = null;
+
+    /** Private Attributes */
+
+    private _interactor!: Interactor;
+
+    /** Grabbable listened to for constraint limits. */
+    private _grabbable: Grabbable | null = null;
+
+    /** Continuous rumble value, in the range `[0, 1]`. */
+    private _rumble = 0.0;
+
+    /** @override */
+    start() {
+        const object = this.interactorObject ?? this.object;
+        const interactor = object.getComponent(Interactor);
+        if (!interactor) {
+            throw new Error(componentError(this, 'interactor component not found'));
+        }
+        this._interactor = interactor;
+    }
+
+    /** @override */
+    onActivate(): void {
+        this._interactor.onHoverStart.add(this._onHoverStart);
+        this._interactor.onGrabStart.add(this._onGrabStart);
+        this._interactor.onGrabEnd.add(this._onGrabEnd);
+    }
+
+    /** @override */
+    onDeactivate(): void {
+        if (!this._interactor.isDestroyed) {
+            this._interactor.onHoverStart.remove(this._onHoverStart);
+            this._interactor.onGrabStart.remove(this._onGrabStart);
+            this._interactor.onGrabEnd.remove(this._onGrabEnd);
+        }
+        this._listen(null);
+        this._rumble = 0.0;
+    }
+
+    /** @override */
+    update(dt: number) {
+        if (this._rumble <= 0.0) {
+            return;
+        }
+        /* Slightly overlap the frames to prevent gaps in the rumble */
+        this.pulse(this._rumble * this.rumbleIntensity, dt * 1.5);
+    }
+
+    /**
+     * Play a pulse.
+     *
+     * @param intensity The intensity, in the range `[0, 1]`.
+     * @param duration The duration, in **seconds**.
+     */
+    pulse(intensity: number, duration: number) {
+        if (intensity <= 0.0 || duration <= 0.0) {
+            return;
+        }
+        const actuator = this.actuator ?? this._findActuator();
+        actuator?.pulse(Math.min(intensity, 1.0), duration * 1000.0);
+    }
+
+    /**
+     * Play a continuous rumble, until set back to `0`.
+     *
+     * @param value The rumble value, in the range `[0, 1]`, scaled
+     *     by {@link rumbleIntensity}.
+     */
+    rumble(value: number) {
+        this._rumble = Math.max(value, 0.0);
+    }
+
+    /** The interactor providing the interaction events. */
+    get interactor(): Interactor {
+        return this._interactor;
+    }
+
+    private _findActuator(): HapticActuator | null {
+        const input = this._interactor.input;
+        if (!(input instanceof DefaultInteractorInput)) {
+            return null;
+        }
+        /* `pulse()` isn't part of the standard typings, but implemented by XR browsers */
+        const actuators = input.getInputSourceXR()?.gamepad?.hapticActuators as
+            readonly HapticActuator[] | undefined;
+        return actuators?.[0] ?? null;
+    }
+
+    private _listen(grabbable: Grabbable | null) {
+        if (this._grabbable && !this._grabbable.isDestroyed) {
+            this._grabbable.onConstraintLimit.remove(this._onConstraintLimit);
+        }
+        this._grabbable = grabbable;
+        grabbable?.onConstraintLimit.add(this._onConstraintLimit);
+    }
+
+    private _onHoverStart = () => {
+        this.pulse(this.hoverIntensity, this.hoverDuration);
+    };
+
+    private _onGrabStart = (_: Interactor, grabbable: Grabbable) => {
+        this._listen(grabbable);
+        this.pulse(this.grabIntensity, this.grabDuration);
+    };
+
+    private _onGrabEnd = (_: Interactor, grabbable: Grabbable) => {
+        this._listen(null);
+        /* Snap zones attach the grabbable during the release */
+        if (SnapZone.zoneOf(grabbable)) {
+            this.pulse(this.snapIntensity, this.snapDuration);
+        } else {
+            this.pulse(this.releaseIntensity, this.releaseDuration);
+        }
+    };
+
+    private _onConstraintLimit = () => {
+        this.pulse(this.limitIntensity, this.limitDuration);
+    };
+}
@@ -38,6 +38,10 @@ export const InteractorInputTypename = 'interactor-input';
  *     onGrabStart: Emitter;
  *     onGrabEnd: Emitter;
  *
+ *     // Optional, to use held objects
+ *     onActivateStart: Emitter;
+ *     onActivateEnd: Emitter;
+ *
  *     update() {
  *         // Notify `onGrabStart` and `onGrabEnd`.
  *         // Could be an event from the network, anything.
@@ -57,6 +61,24 @@ export interface InteractorInput extends Component {
     onGrabStart: Emitter;
     /** Notify once the grab must end. */
     onGrabEnd: Emitter;
+    /**
+     * Notify once the held object must be activated, e.g., to fire a gun.
+     *
+     * @note Optional, inputs without an activate channel can omit it.
+     */
+    onActivateStart?: Emitter;
+    /**
+     * Notify once the held object activation must end.
+     *
+     * @note Optional, inputs without an activate channel can omit it.
+     */
+    onActivateEnd?: Emitter;
+    /**
+     * Analog activation value, in the range `[0, 1]`.
+     *
+     * @note Optional, inputs without an analog activate channel can omit it.
+     */
+    readonly activateValue?: number;
     /** Current controller XR pose. */
     get xrPose(): XRPose | null;
 }
@@ -87,6 +109,16 @@ enum XRBinding {
 }
 const Mapping: number[] = XRButtonNames.map((n) => XRBinding[n]);
 
+/**
+ * Retrieve the index of a button in the gamepad `buttons` list.
+ *
+ * @param button The button.
+ * @returns The index in `Gamepad.buttons`.
+ */
+export function xrButtonIndex(button: XRButton): number {
+    return Mapping[button];
+}
+
 /**
  * Default inputs for {@link Interactor}.
  *
@@ -107,15 +139,69 @@ export class DefaultInteractorInput extends Component implements InteractorInput
     @property.enum(XRButtonNames, XRButton.Grip)
     grab = XRButton.Grip;
 
+    /** If `true`, {@link grabAlternative} also triggers the grab. */
+    @property.bool(false)
+    useGrabAlternative = false;
+
+    /**
+     * Alternative button triggering the grab, e.g., for users with limited grip strength.
+     *
+     * @note Only used if {@link useGrabAlternative} is `true`. Avoid the
+     * {@link activate} button, or grabbing also activates the held object.
+     */
+    @property.enum(XRButtonNames, XRButton.PrimaryButton)
+    grabAlternative = XRButton.PrimaryButton;
+
+    /**
+     * If `true`, the analog value of the buttons is compared to {@link pressThreshold}
+     * and {@link releaseThreshold}. Otherwise, the `pressed` state reported by the
+     * gamepad is used.
+     */
+    @property.bool(false)
+    useAnalogThresholds = false;
+
+    /**
+     * Analog value, in the range `[0, 1]`, above which the grab starts.
+     *
+     * @note Only used if {@link useAnalogThresholds} is `true`. Digital buttons
+     * report either `0` or `1`.
+     */
+    @property.float(0.6)
+    pressThreshold = 0.6;
+
+    /**
+     * Analog value, in the range `[0, 1]`, below which the grab ends.
+     *
+     * Should be smaller than {@link pressThreshold}, to prevent the grab
+     * from flickering when the button is held around the threshold.
+     *
+     * @note Only used if {@link useAnalogThresholds} is `true`.
+     */
+    @property.float(0.4)
+    releaseThreshold = 0.4;
+
+    /**
+     * Button activating the held object.
+     *
+     * @note Uses {@link pressThreshold} and {@link releaseThreshold}, if
+     * {@link useAnalogThresholds} is `true`.
+     */
+    @property.enum(XRButtonNames, XRButton.Trigger)
+    activate = XRButton.Trigger;
+
     /* Public attributes */
 
     onGrabStart = new Emitter();
     onGrabEnd = new Emitter();
+    onActivateStart = new Emitter();
+    onActivateEnd = new Emitter();
 
     /* Private attributes */
 
     private _input!: InputComponent;
     private _grabPressed = false;
+    private _activatePressed = false;
+    private _activateValue = 0.0;
 
     private _xrPose: XRPose | null = null;
 
@@ -161,12 +247,20 @@ export class DefaultInteractorInput extends Component implements InteractorInput
     /** @override */
     update() {
         const previous = this._grabPressed;
+        const previousActivate = this._activatePressed;
 
         const gamepad = this._input.xrInputSource?.gamepad;
         if (gamepad) {
-            const remapped = Mapping[this.grab];
-            const button = gamepad.buttons[remapped];
-            this._grabPressed = button?.pressed ?? false;
+            const grab = gamepad.buttons[Mapping[this.grab]];
+            const alternative = this.useGrabAlternative
+                ? gamepad.buttons[Mapping[this.grabAlternative]]
+                : undefined;
+            this._grabPressed =
+                this._isPressed(grab, previous) || this._isPressed(alternative, previous);
+
+            const activate = gamepad.buttons[Mapping[this.activate]];
+            this._activateValue = activate?.value ?? 0.0;
+            this._activatePressed = this._isPressed(activate, previousActivate);
         }
 
         if (!previous && this._grabPressed) {
@@ -174,9 +268,38 @@ export class DefaultInteractorInput extends Component implements InteractorInput
         } else if (previous && !this._grabPressed) {
             this.onGrabEnd.notify();
         }
+
+        if (!previousActivate && this._activatePressed) {
+            this.onActivateStart.notify();
+        } else if (previousActivate && !this._activatePressed) {
+            this.onActivateEnd.notify();
+        }
     }
 
     get xrPose() {
         return this._xrPose;
     }
+
+    /** @override */
+    get activateValue() {
+        return this._activateValue;
+    }
+
+    /**
+     * Check whether a button is pressed.
+     *
+     * @param button The gamepad button, if any.
+     * @param wasPressed `true` if the button was pressed last update.
+     * @returns `true` if the button is pressed, `false` otherwise.
+     */
+    private _isPressed(button: GamepadButton | undefined, wasPressed: boolean): boolean {
+        if (!button) {
+            return false;
+        }
+        if (!this.useAnalogThresholds) {
+            return button.pressed;
+        }
+        const threshold = wasPressed ? this.releaseThreshold : this.pressThreshold;
+        return button.value > threshold;
+    }
 }
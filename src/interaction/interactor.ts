@@ -1,12 +1,15 @@
-import {vec3} from 'gl-matrix';
+import {quat, vec3} from 'gl-matrix';
 import {
     CollisionComponent,
     CollisionEventType,
     Component,
+    Emitter,
     InputComponent,
+    InputType,
     MeshComponent,
     Object3D,
     PhysXComponent,
+    Scene,
     WonderlandEngine,
 } from '@wonderlandengine/api';
 import {property} from '@wonderlandengine/api/decorators.js';
@@ -18,8 +21,176 @@ import {
     InteractorVisualState,
     InteractorVisualStateNames,
 } from './grab-point.js';
-import {componentError, setComponentsActive} from '../utils/wle.js';
+import {GrabPointRegistry} from './grab-point-registry.js';
+import {Pressable, PressableRegistry} from './pressable.js';
+import {componentError, enumStringKeys, setComponentsActive} from '../utils/wle.js';
+import {toRad} from '../utils/math.js';
+import {TempQuat, TempVec3} from '../internal-constants.js';
+import {EPSILON} from '../constants.js';
 import {DefaultInteractorInput, InteractorInput} from './interactor-input.js';
+import {HandInteractorInput} from './hand-interactor-input.js';
+import {Handedness, HandednessNames, HandPose} from './hand-pose.js';
+
+/* Constants */
+
+/** Weight of the normalized distance, compared to the angle, when scoring remote grabs. */
+const REMOTE_DISTANCE_WEIGHT = 0.25;
+/** Score offset of remote grabs, such that grab points in reach are preferred. */
+const REMOTE_SCORE_OFFSET = 1000;
+/** Score offset per {@link GrabPoint.priority} level. */
+const PRIORITY_SCORE_WEIGHT = 10000;
+
+/**
+ * Behavior of the grab input.
+ */
+export enum GrabMode {
+    /** Grab while the input is held, and release once the input is released. */
+    Hold = 0,
+    /** Grab once the input is pressed, and release once it's pressed again. */
+    Toggle,
+}
+/** List of string keys for {@link GrabMode}. */
+export const GrabModeNames = enumStringKeys(GrabMode);
+
+/**
+ * Grab point in reach of an {@link Interactor}, to be scored.
+ *
+ * @note Candidates are reused, do not keep a reference.
+ */
+export interface GrabCandidate {
+    /** The grab point in reach. */
+    grabPoint: GrabPoint;
+    /** Distance, in **meters**, between the interactor and the grab point. */
+    distance: number;
+    /** Angle, in **radians**, between the interactor and the grab point forward axes. */
+    angle: number;
+    /**
+     * Angle, in **radians**, between the interactor forward axis and
+     * the direction to the grab point.
+     */
+    rayAngle: number;
+    /** `true` if the grab point overlaps with the interactor. */
+    overlapping: boolean;
+    /** `true` if the grab point is searched from a distance. */
+    remote: boolean;
+    /** `true` if the grab point is already held by another interactor. */
+    held: boolean;
+}
+
+/**
+ * Score a grab point in reach, lower is better.
+ *
+ * Return `Infinity` to discard the grab point.
+ */
+export type GrabScoringFunction = (
+    candidate: GrabCandidate,
+    interactor: Interactor
+) => number;
+
+/**
+ * Default {@link GrabScoringFunction}.
+ *
+ * Grab points are ranked by:
+ * - {@link GrabPoint.priority}, highest first
+ * - Grab points in reach before remote ones
+ * - Distance for grab points in reach, overlapping ones first
+ * - Alignment with the interactor ray, then distance, for remote ones
+ *
+ * Grab points held by another interactor, and not transferable, are discarded.
+ *
+ * @param candidate The candidate to score.
+ * @returns The score, lower is better.
+ */
+export function defaultGrabScore(candidate: GrabCandidate): number {
+    const handle = candidate.grabPoint;
+    if (candidate.held && !handle.transferable) {
+        return Number.POSITIVE_INFINITY;
+    }
+
+    let score = candidate.overlapping ? 0.0 : candidate.distance;
+    if (candidate.remote) {
+        score =
+            REMOTE_SCORE_OFFSET +
+            candidate.rayAngle +
+            REMOTE_DISTANCE_WEIGHT * (candidate.distance / handle.maxDistance);
+    }
+    return score - handle.priority * PRIORITY_SCORE_WEIGHT;
+}
+
+/**
+ * Pressable poked through an {@link Interactor}, to be scored.
+ *
+ * @note Candidates are reused, do not keep a reference.
+ */
+export interface PokeCandidate {
+    /** The poked pressable. */
+    pressable: Pressable;
+    /** Depth, in **meters**, at which the tip pokes the pressable. */
+    depth: number;
+    /** Distance, in **meters**, between the tip and the pressable. */
+    distance: number;
+    /** `true` if the pressable was already poked by the tip during the last update. */
+    poked: boolean;
+}
+
+/**
+ * Score a poked pressable, lower is better.
+ *
+ * Return `Infinity` to discard the pressable.
+ */
+export type PokeScoringFunction = (
+    candidate: PokeCandidate,
+    interactor: Interactor
+) => number;
+
+/**
+ * Default {@link PokeScoringFunction}.
+ *
+ * The pressable already poked is kept, such that sliding across adjacent
+ * keys doesn't switch between them. Otherwise, the closest pressable wins.
+ *
+ * @param candidate The candidate to score.
+ * @returns The score, lower is better.
+ */
+export function defaultPokeScore(candidate: PokeCandidate): number {
+    return candidate.poked ? -1.0 : candidate.distance;
+}
+
+/**
+ * Derive the handedness of a native input component.
+ *
+ * @param input The input component.
+ * @returns The handedness, {@link Handedness.None} if unknown.
+ */
+function handednessFromInput(input: InputComponent): Handedness {
+    switch (input.inputType) {
+        case InputType.ControllerLeft:
+        case InputType.RayLeft:
+            return Handedness.Left;
+        case InputType.ControllerRight:
+        case InputType.RayRight:
+            return Handedness.Right;
+    }
+    /* Hand tracking inputs aren't part of the input type */
+    if (input.handedness === 'left') {
+        return Handedness.Left;
+    }
+    if (input.handedness === 'right') {
+        return Handedness.Right;
+    }
+    return Handedness.None;
+}
+
+/** Joint of the {@link Interactor.handSkeleton}, blended towards a {@link HandPose}. */
+interface HandJoint {
+    object: Object3D;
+    /** Local rotation when the interactor starts. */
+    rest: quat;
+    /** Local rotation when the blend starts. */
+    from: quat;
+    /** Local rotation when the blend ends. */
+    to: quat;
+}
 
 /**
  * Manages interaction capabilities of a VR controller or a similar input device.
@@ -30,8 +201,23 @@ import {DefaultInteractorInput, InteractorInput} from './interactor-input.js';
 export class Interactor extends Component {
     static TypeName = 'interactor';
 
+    /**
+     * Notifies once any interactor starts grabbing a grabbable, see {@link onGrabStart}.
+     *
+     * Useful to listen to interactors spawned at runtime.
+     */
+    static OnAnyGrabStart: Emitter<[Interactor, Grabbable]> = new Emitter();
+
+    /**
+     * Notifies once any interactor stops grabbing a grabbable, see {@link onGrabEnd}.
+     *
+     * Useful to listen to interactors spawned at runtime.
+     */
+    static OnAnyGrabEnd: Emitter<[Interactor, Grabbable]> = new Emitter();
+
     static onRegister(engine: WonderlandEngine) {
         engine.registerComponent(DefaultInteractorInput);
+        engine.registerComponent(HandInteractorInput);
     }
 
     /** Properties */
@@ -48,6 +234,78 @@ export class Interactor extends Component {
     @property.object({required: true})
     trackedSpace: Object3D = null!;
 
+    /**
+     * Behavior of the grab input, defaults to {@link GrabMode.Hold}.
+     *
+     * @note Grabbables with {@link Grabbable.sticky} set always behave
+     * as {@link GrabMode.Toggle}.
+     */
+    @property.enum(GrabModeNames, GrabMode.Hold)
+    grabMode = GrabMode.Hold;
+
+    /**
+     * Hand used by this interactor, used to filter and mirror grab points.
+     *
+     * @note If {@link Handedness.None}, the handedness is derived from the
+     * native input component found in this object's hierarchy.
+     */
+    @property.enum(HandednessNames, Handedness.None)
+    handedness = Handedness.None;
+
+    /**
+     * Root of the skinned hand joints, onto which the {@link GrabPoint.handPose}
+     * is applied while grabbing.
+     *
+     * @note Joints are matched by name with the pose.
+     */
+    @property.object()
+    handSkeleton: Object3D | null = null;
+
+    /** Duration, in **seconds**, of the blend to and from a hand pose. */
+    @property.float(0.1)
+    handPoseBlend = 0.1;
+
+    /**
+     * If `true`, the best grab point in reach is searched every frame
+     * to notify {@link onHoverStart} and {@link onHoverEnd}.
+     */
+    @property.bool(false)
+    trackHover = false;
+
+    /** Public Attributes. */
+
+    /** Notifies once a grab point starts being hovered by this interactor. */
+    onHoverStart: Emitter<[this, GrabPoint]> = new Emitter();
+
+    /** Notifies once a grab point stops being hovered by this interactor. */
+    onHoverEnd: Emitter<[this, GrabPoint]> = new Emitter();
+
+    /** Notifies once this interactor starts grabbing a grabbable. */
+    onGrabStart: Emitter<[this, Grabbable]> = new Emitter();
+
+    /** Notifies once this interactor stops grabbing a grabbable. */
+    onGrabEnd: Emitter<[this, Grabbable]> = new Emitter();
+
+    /**
+     * Function used to rank the grab points in reach, defaults to {@link defaultGrabScore}.
+     *
+     * @example
+     * ```js
+     * // Prefer grab points facing the same direction as the hand
+     * interactor.scoreGrabPoint = (candidate) => {
+     *     if (candidate.held) return Infinity;
+     *     return candidate.distance + 0.1 * candidate.angle - candidate.grabPoint.priority;
+     * };
+     * ```
+     */
+    scoreGrabPoint: GrabScoringFunction = defaultGrabScore;
+
+    /**
+     * Function used to rank the pressables poked by a {@link PokeInteractor}
+     * using this interactor, defaults to {@link defaultPokeScore}.
+     */
+    scorePressable: PokeScoringFunction = defaultPokeScore;
+
     /** Private Attributes. */
 
     private _input!: InteractorInput;
@@ -67,14 +325,71 @@ export class Interactor extends Component {
     /** Cached interactable after it's gripped. */
     private _grabbable: Grabbable | null = null;
 
+    /** Grab point currently hovered. */
+    private _hovered: GrabPoint | null = null;
+
+    /** Candidate reused by {@link findGrabPoint}. */
+    private _candidate: GrabCandidate = {
+        grabPoint: null!,
+        distance: 0,
+        angle: 0,
+        rayAngle: 0,
+        overlapping: false,
+        remote: false,
+        held: false,
+    };
+
+    /** Grab points list reused by {@link findGrabPoint}. */
+    private _candidates: GrabPoint[] = [];
+
+    /** Candidate reused by {@link findPressable}. */
+    private _pokeCandidate: PokeCandidate = {
+        pressable: null!,
+        depth: 0,
+        distance: 0,
+        poked: false,
+    };
+
+    /** Pressables list reused by {@link findPressable}. */
+    private _pressables: Pressable[] = [];
+
+    /** Joints of the {@link handSkeleton}. */
+    private _joints: HandJoint[] = [];
+    /** Blend progress towards the target hand pose, in the range `[0, 1]`. */
+    private _poseProgress = 1.0;
+
     private _onGrabStart = () => {
+        if (this._grabbable && this._isToggled()) {
+            this.stopInteraction();
+            return;
+        }
         this.checkForNearbyInteractables();
     };
 
     private _onGrabEnd = () => {
+        if (this._grabbable && this._isToggled()) {
+            return;
+        }
         this.stopInteraction();
     };
 
+    /** Grabbable notified with {@link Grabbable.onActivateStart}. */
+    private _activated: Grabbable | null = null;
+    /** Last activation value forwarded to the held grabbable. */
+    private _activateValue = 0.0;
+
+    private _onActivateStart = () => {
+        if (!this._grabbable || this._activated) {
+            return;
+        }
+        this._activated = this._grabbable;
+        this._grabbable.onActivateStart.notify(this._grabbable, this);
+    };
+
+    private _onActivateEnd = () => {
+        this._endActivation();
+    };
+
     #currentlyCollidingWith: GrabPoint | null = null;
 
     /**
@@ -93,16 +408,43 @@ export class Interactor extends Component {
             throw new Error('grabber.start(): No collision or physx component found');
         }
 
-        let maybeInput = (this.inputObject ?? this.object).getComponent(
-            DefaultInteractorInput
-        );
+        const search = (object: Object3D): InputComponent | null => {
+            const input = object.getComponent(InputComponent);
+            if (input) {
+                return input;
+            }
+            return object.parent ? search(object.parent) : null;
+        };
 
-        if (!maybeInput) {
-            const search = (object: Object3D): InputComponent | null => {
-                const input = object.getComponent(InputComponent);
-                if (input) return input;
-                return object.parent ? search(object.parent) : null;
+        if (this.handedness === Handedness.None) {
+            const native = search(this.object);
+            if (native) {
+                this.handedness = handednessFromInput(native);
+            }
+        }
+
+        if (this.handSkeleton) {
+            const read = (object: Object3D) => {
+                for (const child of object.children) {
+                    const rest = child.getRotationLocal(quat.create());
+                    this._joints.push({
+                        object: child,
+                        rest,
+                        from: quat.clone(rest),
+                        to: quat.clone(rest),
+                    });
+                    read(child);
+                }
             };
+            read(this.handSkeleton);
+        }
+
+        const inputObject = this.inputObject ?? this.object;
+        let maybeInput: InteractorInput | null =
+            inputObject.getComponent(DefaultInteractorInput) ??
+            inputObject.getComponent(HandInteractorInput);
+
+        if (!maybeInput) {
             const input = search(this.object);
             if (!input) {
                 throw new Error(
@@ -127,6 +469,8 @@ export class Interactor extends Component {
 
         this._input.onGrabStart.add(this._onGrabStart);
         this._input.onGrabEnd.add(this._onGrabEnd);
+        this._input.onActivateStart?.add(this._onActivateStart);
+        this._input.onActivateEnd?.add(this._onActivateEnd);
     }
 
     onDeactivate(): void {
@@ -138,6 +482,27 @@ export class Interactor extends Component {
         if (!this._input.isDestroyed) {
             this._input.onGrabStart.remove(this._onGrabStart);
             this._input.onGrabEnd.remove(this._onGrabEnd);
+            this._input.onActivateStart?.remove(this._onActivateStart);
+            this._input.onActivateEnd?.remove(this._onActivateEnd);
+        }
+        this._endActivation();
+
+        this._setHovered(null);
+    }
+
+    /** @override */
+    update(dt: number): void {
+        if (this._poseProgress < 1.0) {
+            this._updateHandPose(dt);
+        }
+        if (this.trackHover) {
+            this._setHovered(this._grabbable ? null : this.findGrabPoint());
+        }
+
+        const value = this.activateValue;
+        if (this._grabbable && value !== this._activateValue) {
+            this._activateValue = value;
+            this._grabbable.onActivateValue.notify(this._grabbable, this, value);
         }
     }
 
@@ -150,12 +515,17 @@ export class Interactor extends Component {
         const handle = interactable.grabPoints[handleId];
         if (handle.interactor) {
             if (!handle.transferable) return;
-            interactable.release(handle.interactor);
+            handle.interactor.stopInteraction();
         }
         handle._interactor = this;
-
         this._grabbable = interactable;
-        interactable.grab(this, handleId);
+        if (!interactable.grab(this, handleId)) {
+            /* Every grab is taken, see {@link Grabbable.maxGrabs} */
+            handle._interactor = null;
+            this._grabbable = null;
+            return;
+        }
+        this._setHovered(null);
 
         let hidden = this.visualStateOnGrab === InteractorVisualState.Hidden;
         if (interactable.interactorVisualState !== InteractorVisualState.None) {
@@ -168,6 +538,10 @@ export class Interactor extends Component {
         if (this.meshRoot && hidden) {
             setComponentsActive(this.meshRoot, false, MeshComponent);
         }
+
+        this._setHandPose(handle.handPose);
+        this.onGrabStart.notify(this, interactable);
+        Interactor.OnAnyGrabStart.notify(this, interactable);
     }
 
     /**
@@ -175,21 +549,30 @@ export class Interactor extends Component {
      * interacts with it.
      */
     public checkForNearbyInteractables() {
-        // TODO: Allocation.
-        const thisPosition = this.object.getPositionWorld();
-        let minDistance = Number.POSITIVE_INFINITY;
-        let grabbableId = null;
-        let handleId = null;
+        const handle = this.findGrabPoint();
+        if (!handle) {
+            return;
+        }
 
-        /* Prioritize collision / physx over distance grab */
+        const grabbable = handle.grabbable!;
+        this.startInteraction(grabbable, grabbable.grabPoints.indexOf(handle));
+    }
 
-        // TODO: Link from handle to grabbable would be better.
-        // Just need to ensure than a handle can't be referenced by
-        // 2 grabbables.
+    /**
+     * Search for the best grab point to interact with.
+     *
+     * Grab points in reach are ranked using {@link scoreGrabPoint}.
+     *
+     * @returns The grab point, or `null` if none is in reach.
+     */
+    public findGrabPoint(): GrabPoint | null {
+        const position = this.object.getPositionWorld(TempVec3.get());
+        const forward = this.object.getForwardWorld(TempVec3.get());
+        const toHandle = TempVec3.get();
+        const handleForward = TempVec3.get();
 
-        const overlaps = this._collision ? this._collision.queryOverlaps() : null;
         let overlapHandle: GrabPoint | null = null;
-        if (overlaps) {
+        if (this._collision) {
             /** @todo: The API should instead allow to check for overlap on given objects. */
             const overlaps = this._collision.queryOverlaps();
             for (const overlap of overlaps) {
@@ -203,38 +586,122 @@ export class Interactor extends Component {
             overlapHandle = this.#currentlyCollidingWith;
         }
 
-        /** @todo: Optimize with a typed list of handle, an octree? */
-        const grabbables = this.scene.getActiveComponents(Grabbable);
-        for (let i = 0; i < grabbables.length; ++i) {
-            const grabbable = grabbables[i];
-            for (let h = 0; h < grabbable.grabPoints.length; ++h) {
-                const handle = grabbable.grabPoints[h];
-                let dist = Number.POSITIVE_INFINITY;
-                switch (handle.searchMode) {
-                    case GrabSearchMode.Distance: {
-                        /** @todo: Add interactor grab origin */
-                        const otherPosition = handle.object.getPositionWorld();
-                        dist = vec3.sqrDist(thisPosition, otherPosition);
-                        break;
-                    }
-                    case GrabSearchMode.Overlap: {
-                        dist = overlapHandle === handle ? 0.0 : dist;
-                        break;
-                    }
-                }
+        const candidate = this._candidate;
+        let minScore = Number.POSITIVE_INFINITY;
+        let result: GrabPoint | null = null;
 
-                const maxDistanceSq = handle.maxDistance * handle.maxDistance;
-                if (dist < maxDistanceSq && dist < minDistance) {
-                    minDistance = dist;
-                    grabbableId = i;
-                    handleId = h;
-                }
+        const candidates = GrabPointRegistry.get(this.scene as Scene).query(
+            this._candidates,
+            position
+        );
+        if (overlapHandle && !candidates.includes(overlapHandle)) {
+            candidates.push(overlapHandle);
+        }
+
+        for (let i = 0; i < candidates.length; ++i) {
+            const handle = candidates[i];
+            if (!handle.grabbable?.active) {
+                continue;
+            }
+            if (!handle.isUsableBy(this.handedness)) {
+                continue;
+            }
+
+            /** @todo: Add interactor grab origin */
+            handle.object.getPositionWorld(toHandle);
+            vec3.subtract(toHandle, toHandle, position);
+            const distance = vec3.length(toHandle);
+
+            let inReach = false;
+            switch (handle.searchMode) {
+                case GrabSearchMode.Distance:
+                    inReach = distance < handle.maxDistance;
+                    break;
+                case GrabSearchMode.Overlap:
+                    inReach = overlapHandle === handle;
+                    break;
+                case GrabSearchMode.Ray:
+                case GrabSearchMode.Cone:
+                    inReach = this._inRemoteReach(handle, toHandle, forward);
+                    break;
+            }
+            if (!inReach) {
+                continue;
+            }
+
+            handle.object.getForwardWorld(handleForward);
+            candidate.grabPoint = handle;
+            candidate.distance = distance;
+            candidate.angle = vec3.angle(forward, handleForward);
+            candidate.rayAngle = distance > EPSILON ? vec3.angle(forward, toHandle) : 0.0;
+            candidate.overlapping = overlapHandle === handle;
+            candidate.remote = handle.isRemote;
+            candidate.held = !!handle.interactor && handle.interactor !== this;
+
+            const score = this.scoreGrabPoint(candidate, this);
+            if (score < minScore) {
+                minScore = score;
+                result = handle;
             }
         }
+        candidates.length = 0;
+        TempVec3.free(4);
+
+        return result;
+    }
+
+    /**
+     * Search for the best pressable poked by a tip, ranked using {@link scorePressable}.
+     *
+     * Like grab points, pressables are queried from their registry, such that
+     * only the pressables around the tip are tested.
+     *
+     * @note Automatically called by {@link PokeInteractor}.
+     *
+     * @param position The tip position, in **world space**.
+     * @param radius Radius, in **meters**, of the tip.
+     * @param poked The pressable poked by the tip during the last update, if any.
+     * @returns The pressable to poke, or `null` if none is in reach.
+     */
+    findPressable(
+        position: vec3,
+        radius: number,
+        poked: Pressable | null = null
+    ): Pressable | null {
+        const pressablePosition = TempVec3.get();
+
+        const candidate = this._pokeCandidate;
+        let minScore = Number.POSITIVE_INFINITY;
+        let result: Pressable | null = null;
+
+        const candidates = PressableRegistry.get(this.scene as Scene).query(
+            this._pressables,
+            position,
+            radius
+        );
+        for (let i = 0; i < candidates.length; ++i) {
+            const pressable = candidates[i];
+            const depth = pressable.pokeDepth(position, radius);
+            if (depth <= 0.0) {
+                continue;
+            }
+
+            pressable.object.getPositionWorld(pressablePosition);
+            candidate.pressable = pressable;
+            candidate.depth = depth;
+            candidate.distance = vec3.distance(position, pressablePosition);
+            candidate.poked = pressable === poked;
 
-        if (grabbableId !== null) {
-            this.startInteraction(grabbables[grabbableId], handleId!);
+            const score = this.scorePressable(candidate, this);
+            if (score < minScore) {
+                minScore = score;
+                result = pressable;
+            }
         }
+        candidates.length = 0;
+        TempVec3.free();
+
+        return result;
     }
 
     onPhysxCollision = (type: CollisionEventType, other: PhysXComponent) => {
@@ -253,14 +720,129 @@ export class Interactor extends Component {
      * currently bound interactable.
      */
     public stopInteraction() {
-        if (this._grabbable && !this._grabbable.isDestroyed) {
-            this._grabbable.release(this);
+        const grabbable = this._grabbable;
+
+        this._endActivation();
+        if (grabbable && !grabbable.isDestroyed && this._activateValue !== 0.0) {
+            grabbable.onActivateValue.notify(grabbable, this, 0.0);
         }
+        this._activateValue = 0.0;
+
+        /* Cleared first, the grabbable checks it to notify back this interactor */
         this._grabbable = null;
+        if (grabbable && !grabbable.isDestroyed) {
+            grabbable.release(this);
+        }
 
         if (this.meshRoot && !this.meshRoot.isDestroyed) {
             setComponentsActive(this.meshRoot, true, MeshComponent);
         }
+
+        this._setHandPose(null);
+        if (grabbable) {
+            this.onGrabEnd.notify(this, grabbable);
+            Interactor.OnAnyGrabEnd.notify(this, grabbable);
+        }
+    }
+
+    /**
+     * Update the hovered grab point, and notify the hover lifecycle
+     * on this interactor, the grab point, and its grabbable.
+     *
+     * @param handle The new hovered grab point, `null` to stop hovering.
+     */
+    private _setHovered(handle: GrabPoint | null) {
+        const previous = this._hovered;
+        if (previous === handle) {
+            return;
+        }
+        this._hovered = handle;
+
+        if (previous && !previous.isDestroyed) {
+            previous.onHoverEnd.notify(previous, this);
+            previous.grabbable?.onHoverEnd.notify(previous.grabbable, previous, this);
+            this.onHoverEnd.notify(this, previous);
+        }
+        if (handle) {
+            handle.onHoverStart.notify(handle, this);
+            handle.grabbable?.onHoverStart.notify(handle.grabbable, handle, this);
+            this.onHoverStart.notify(this, handle);
+        }
+    }
+
+    /**
+     * Start blending the {@link handSkeleton} towards a pose.
+     *
+     * @param pose The pose to blend to, `null` to blend back to the rest pose.
+     */
+    private _setHandPose(pose: HandPose | null) {
+        if (!this._joints.length) {
+            return;
+        }
+        for (const joint of this._joints) {
+            joint.object.getRotationLocal(joint.from);
+            const posed = pose?.getRotation(joint.to, joint.object.name, this.handedness);
+            if (!posed) {
+                quat.copy(joint.to, joint.rest);
+            }
+        }
+        this._poseProgress = 0.0;
+        this._updateHandPose(0.0);
+    }
+
+    /**
+     * Advance the hand pose blend.
+     *
+     * @param dt The delta time, in **seconds**.
+     */
+    private _updateHandPose(dt: number) {
+        const duration = this.handPoseBlend;
+        this._poseProgress =
+            duration > 0.0 ? Math.min(this._poseProgress + dt / duration, 1.0) : 1.0;
+
+        const rotation = TempQuat.get();
+        for (const joint of this._joints) {
+            quat.slerp(rotation, joint.from, joint.to, this._poseProgress);
+            joint.object.setRotationLocal(rotation);
+        }
+        TempQuat.free();
+    }
+
+    /** Notify the end of the activation, if the held grabbable was activated. */
+    private _endActivation() {
+        const grabbable = this._activated;
+        this._activated = null;
+        if (grabbable && !grabbable.isDestroyed) {
+            grabbable.onActivateEnd.notify(grabbable, this);
+        }
+    }
+
+    /** `true` if the current grab is released by pressing the grab input again. */
+    private _isToggled() {
+        return this.grabMode === GrabMode.Toggle || !!this._grabbable?.sticky;
+    }
+
+    /**
+     * Check whether a grab point searched from a distance, i.e., using
+     * {@link GrabSearchMode.Ray} or {@link GrabSearchMode.Cone}, is in reach.
+     *
+     * @param handle The grab point to check.
+     * @param toHandle Vector from the interactor to the grab point, in **world space**.
+     * @param direction Normalized ray direction, in **world space**.
+     * @returns `true` if the grab point is in reach, `false` otherwise.
+     */
+    private _inRemoteReach(handle: GrabPoint, toHandle: vec3, direction: vec3): boolean {
+        const along = vec3.dot(toHandle, direction);
+        if (along <= 0.0 || along > handle.maxDistance) {
+            return false;
+        }
+
+        /* Squared distance between the grab point and the ray */
+        const sqrRadius = Math.max(vec3.squaredLength(toHandle) - along * along, 0.0);
+        if (handle.searchMode === GrabSearchMode.Ray) {
+            return sqrRadius <= handle.rayRadius * handle.rayRadius;
+        }
+        return Math.atan2(Math.sqrt(sqrRadius), along) <= toRad(handle.coneAngle);
     }
 
     /**
@@ -271,6 +853,20 @@ export class Interactor extends Component {
         return this._grabbable;
     }
 
+    /** Grab point currently hovered, `null` if none. */
+    get hovered(): GrabPoint | null {
+        return this._hovered;
+    }
+
+    /**
+     * Analog activation value of the {@link input}, in the range `[0, 1]`.
+     *
+     * @note Always `0` if the input has no analog activate channel.
+     */
+    get activateValue(): number {
+        return this._input.activateValue ?? 0.0;
+    }
+
     /** {@link InteractorInput} */
     get input(): InteractorInput {
         return this._input;
@@ -0,0 +1,107 @@
+import {Component, Object3D, property} from '@wonderlandengine/api';
+
+import {Interactor} from './interactor.js';
+import {Pressable} from './pressable.js';
+import {componentError} from '../utils/wle.js';
+import {TempVec3} from '../internal-constants.js';
+
+/**
+ * Presses {@link Pressable} components using a tip, e.g., a fingertip
+ * or the tip of a controller.
+ *
+ * Pressables are searched by the {@link Interactor} of the hand, sharing its
+ * candidate search and scoring, see {@link Interactor.findPressable}. A single
+ * pressable is poked at a time.
+ *
+ * The tip can be any object, such as the index tip joint of a tracked hand:
+ *
+ * ```js
+ * const poke = hand.addComponent(PokeInteractor, {tip: indexTip});
+ * ```
+ */
+export class PokeInteractor extends Component {
+    static TypeName = 'poke-interactor';
+
+    /** Properties */
+
+    /**
+     * Object with the interactor searching for pressables.
+     *
+     * @note If no object is provided, the interactor is searched on this object.
+     */
+    @property.object()
+    interactorObject: Object3D | null = null;
+
+    /**
+     * Object whose position is used to poke.
+     *
+     * @note If no object is provided, this object is used.
+     */
+    @property.object()
+    tip: Object3D | null = null;
+
+    /** Radius, in **meters**, of the tip. */
+    @property.float(0.008)
+    radius = 0.008;
+
+    /** Private Attributes */
+
+    private _interactor!: Interactor;
+
+    /** Pressable poked during the last update. */
+    private _poked: Pressable | null = null;
+
+    /** @override */
+    start() {
+        const object = this.interactorObject ?? this.object;
+        const interactor = object.getComponent(Interactor);
+        if (!interactor) {
+            throw new Error(componentError(this, 'interactor component not found'));
+        }
+        this._interactor = interactor;
+    }
+
+    /** @override */
+    onDeactivate(): void {
+        this._release();
+    }
+
+    /** @override */
+    update() {
+        const position = (this.tip ?? this.object).getPositionWorld(TempVec3.get());
+        const pressable = this._interactor.findPressable(
+            position,
+            this.radius,
+            this._poked
+        );
+
+        /* The pressable left since the last update stops being poked */
+        if (pressable !== this._poked) {
+            this._release();
+        }
+        if (pressable?.setPoke(this, pressable.pokeDepth(position, this.radius))) {
+            this._poked = pressable;
+        } else {
+            this._poked = null;
+        }
+
+        TempVec3.free();
+    }
+
+    /** Pressable currently poked by this interactor. */
+    get poked(): Pressable | null {
+        return this._poked;
+    }
+
+    /** The interactor searching for pressables. */
+    get interactor(): Interactor {
+        return this._interactor;
+    }
+
+    private _release() {
+        if (this._poked && !this._poked.isDestroyed) {
+            this._poked.setPoke(this, -1.0);
+        }
+        this._poked = null;
+    }
+}
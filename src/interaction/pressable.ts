@@ -0,0 +1,254 @@
+import {Component, Emitter, Object3D, property, Scene} from '@wonderlandengine/api';
+import {vec3} from 'gl-matrix';
+
+import {PokeInteractor} from './poke-interactor.js';
+import {SpatialRegistry} from '../utils/spatial-registry.js';
+import {TempVec3} from '../internal-constants.js';
+
+/** Constants */
+
+/** Size, in **meters**, of the grid cells used to index pressables. */
+const CellSize = 0.25;
+/** Largest reach, in **meters**, of indexed pressables. */
+const MaxIndexedReach = 1.0;
+
+/** Registry of each scene. */
+const Registries = new WeakMap<Scene, PressableRegistry>();
+
+/**
+ * Registry of the active {@link Pressable} of a scene, used by {@link Interactor.findPressable}
+ * to search for pressables without iterating over the entire scene.
+ *
+ * Works like {@link GrabPointRegistry}: pressables are indexed once, and only
+ * re-indexed when {@link Pressable.movable}, or once woken up using {@link wake}.
+ */
+export class PressableRegistry extends SpatialRegistry<Pressable> {
+    /**
+     * Retrieve the registry of a scene, created on demand.
+     *
+     * @param scene The scene.
+     * @returns The registry.
+     */
+    static get(scene: Scene): PressableRegistry {
+        let registry = Registries.get(scene);
+        if (!registry) {
+            registry = new PressableRegistry(scene);
+            Registries.set(scene, registry);
+        }
+        return registry;
+    }
+
+    private constructor(scene: Scene) {
+        super({
+            cellSize: CellSize,
+            maxIndexedReach: MaxIndexedReach,
+            position: (pressable, out) => pressable.object.getPositionWorld(out),
+            reach: (pressable) => pressable.radius + pressable.travel,
+            isDynamic: (pressable) => pressable.movable,
+        });
+        /* Moving pressables are checked at most once per frame */
+        scene.onPreRender.add(() => this.invalidate());
+    }
+}
+
+/**
+ * Button, key, or any surface pressed by a {@link PokeInteractor}.
+ *
+ * The {@link button} travels along {@link axis} while poked, up to {@link travel}.
+ * The pressable is pressed once the button goes past {@link pressThreshold}, and
+ * released once it comes back above {@link releaseThreshold}. When no longer
+ * poked, the button springs back to its rest position.
+ *
+ * @example
+ * ```js
+ * const pressable = object.getComponent(Pressable);
+ * pressable.onPress.add(() => elevator.call());
+ * ```
+ */
+export class Pressable extends Component {
+    static TypeName = 'pressable';
+
+    /** Properties */
+
+    /**
+     * Moving part of the button.
+     *
+     * @note If no object is provided, this object moves.
+     */
+    @property.object()
+    button: Object3D | null = null;
+
+    /**
+     * Direction in which the button is pressed, in the **local space**
+     * of the button parent.
+     *
+     * @note Doesn't need to be normalized.
+     */
+    @property.vector3(0, -1, 0)
+    axis!: Float32Array;
+
+    /** Maximum distance, in **meters**, travelled by the button. */
+    @property.float(0.01)
+    travel = 0.01;
+
+    /** Radius, in **meters**, around the button in which a poke is detected. */
+    @property.float(0.02)
+    radius = 0.02;
+
+    /** Fraction of {@link travel}, in the range `[0, 1]`, above which the button is pressed. */
+    @property.float(0.7)
+    pressThreshold = 0.7;
+
+    /**
+     * Fraction of {@link travel}, in the range `[0, 1]`, below which the button is released.
+     *
+     * Should be smaller than {@link pressThreshold}, to prevent the button
+     * from flickering.
+     */
+    @property.float(0.4)
+    releaseThreshold = 0.4;
+
+    /** Speed, in **meters per second**, at which the button springs back. */
+    @property.float(0.1)
+    returnSpeed = 0.1;
+
+    /**
+     * If `true`, the pressable is expected to move, e.g., on a wrist menu,
+     * and is re-indexed by the {@link PressableRegistry} every frame.
+     *
+     * @note Call {@link PressableRegistry.wake} instead for occasional moves.
+     */
+    @property.bool(false)
+    movable = false;
+
+    /** Public Attributes */
+
+    /** Notifies once the button is pressed. */
+    onPress: Emitter<[this]> = new Emitter();
+
+    /** Notifies once the button is released. */
+    onRelease: Emitter<[this]> = new Emitter();
+
+    /** Private Attributes */
+
+    /** Rest position of the button, in **local space**. */
+    private _rest = vec3.create();
+
+    /** Depth requested by each poke interactor, in **meters**. */
+    private _pokes = new Map<PokeInteractor, number>();
+
+    /** Current depth of the button, in **meters**. */
+    private _depth = 0.0;
+
+    private _pressed = false;
+
+    /** @override */
+    start() {
+        (this.button ?? this.object).getPositionLocal(this._rest);
+    }
+
+    /** @override */
+    onActivate(): void {
+        PressableRegistry.get(this.scene as Scene).add(this);
+    }
+
+    /** @override */
+    onDeactivate(): void {
+        PressableRegistry.get(this.scene as Scene).remove(this);
+        this._pokes.clear();
+    }
+
+    /** @override */
+    update(dt: number) {
+        let target = 0.0;
+        for (const depth of this._pokes.values()) {
+            target = Math.max(target, depth);
+        }
+
+        const previous = this._depth;
+        /* Follow the poke immediately, but spring back smoothly */
+        this._depth =
+            target >= this._depth
+                ? target
+                : Math.max(target, this._depth - this.returnSpeed * dt);
+
+        if (this._depth !== previous) {
+            const button = this.button ?? this.object;
+            const axis = vec3.normalize(TempVec3.get(), this.axis);
+            const position = vec3.scaleAndAdd(
+                TempVec3.get(),
+                this._rest,
+                axis,
+                this._depth
+            );
+            button.setPositionLocal(position);
+            TempVec3.free(2);
+        }
+
+        const value = this.value;
+        if (!this._pressed && value >= this.pressThreshold) {
+            this._pressed = true;
+            this.onPress.notify(this);
+        } else if (this._pressed && value < this.releaseThreshold) {
+            this._pressed = false;
+            this.onRelease.notify(this);
+        }
+    }
+
+    /**
+     * Compute the depth at which a point pokes this pressable.
+     *
+     * @param position The point, in **world space**.
+     * @param tipRadius Radius, in **meters**, of the poking tip.
+     * @returns The depth, in **meters**, or a negative value if the point
+     *     isn't in front of the button.
+     */
+    pokeDepth(position: vec3, tipRadius = 0.0): number {
+        const button = this.button ?? this.object;
+        const local = vec3.copy(TempVec3.get(), position);
+        button.parent?.transformPointInverseWorld(local);
+
+        const axis = vec3.normalize(TempVec3.get(), this.axis);
+        vec3.subtract(local, local, this._rest);
+        const along = vec3.dot(local, axis);
+        const lateral = Math.max(vec3.squaredLength(local) - along * along, 0.0);
+
+        TempVec3.free(2);
+        if (lateral > this.radius * this.radius) {
+            return -1.0;
+        }
+        return along + tipRadius;
+    }
+
+    /**
+     * Set the depth requested by a poking interactor.
+     *
+     * @note Automatically called by {@link PokeInteractor}.
+     *
+     * @param poker The poking interactor.
+     * @param depth The depth, in **meters**, or a negative value to stop poking.
+     * @returns `true` if poked, `false` if the poke stopped or was rejected.
+     */
+    setPoke(poker: PokeInteractor, depth: number): boolean {
+        if (depth <= 0.0) {
+            this._pokes.delete(poker);
+            return false;
+        }
+        /* Pokes must start in front of the button, not from behind or the side */
+        if (!this._pokes.has(poker) && depth > this.pressThreshold * this.travel) {
+            return false;
+        }
+        this._pokes.set(poker, Math.min(depth, this.travel));
+        return true;
+    }
+
+    /** Press amount, in the range `[0, 1]`. */
+    get value() {
+        return this.travel > 0.0 ? this._depth / this.travel : 0.0;
+    }
+
+    /** `true` if the button is currently pressed. */
+    get isPressed() {
+        return this._pressed;
+    }
+}
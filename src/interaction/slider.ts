@@ -0,0 +1,127 @@
+import {Component, Emitter, property} from '@wonderlandengine/api';
+
+import {Grabbable, PivotAxis, PivotAxisNames} from './grabbable.js';
+import {TranslationConstraint} from '../constraints.js';
+import {quantize} from '../utils/math.js';
+import {componentError} from '../utils/wle.js';
+import {TempVec3} from '../internal-constants.js';
+
+/**
+ * Linear control reading the position of a {@link Grabbable} along one axis
+ * of its {@link TranslationConstraint}, as a normalized value.
+ *
+ * The value is `0` at {@link TranslationConstraint.min}, and `1` at
+ * {@link TranslationConstraint.max}. Use {@link steps} for detents, e.g.,
+ * for a three-position switch.
+ *
+ * @example
+ * ```js
+ * const slider = object.getComponent(Slider);
+ * slider.onValueChanged.add((slider, value) => light.intensity = value);
+ * ```
+ *
+ * @note The constraint bounds along {@link axis} must be valid, i.e., `min < max`.
+ */
+export class Slider extends Component {
+    static TypeName = 'slider';
+
+    /** Properties */
+
+    /** Axis, in **local space**, along which the slider moves. */
+    @property.enum(PivotAxisNames, PivotAxis.X)
+    axis = PivotAxis.X;
+
+    /**
+     * Number of detents, including both ends. Once released, the slider
+     * snaps to the closest detent.
+     *
+     * @note Use `0` for a continuous value.
+     */
+    @property.int(0)
+    steps = 0;
+
+    /** Public Attributes */
+
+    /** Notifies once the value changes, with the new value. */
+    onValueChanged: Emitter<[this, number]> = new Emitter();
+
+    /** Private Attributes */
+
+    private _constraint!: TranslationConstraint;
+    private _grabbable: Grabbable | null = null;
+
+    /** Current value, `-1` until first read. */
+    private _value = -1.0;
+
+    /** @override */
+    start() {
+        const constraint = this.object.getComponent(TranslationConstraint);
+        if (!constraint) {
+            throw new Error(componentError(this, 'translation-constraint not found'));
+        }
+        if (constraint.min[this.axis] >= constraint.max[this.axis]) {
+            throw new Error(componentError(this, 'constraint axis has no valid range'));
+        }
+        this._constraint = constraint;
+        this._grabbable = this.object.getComponent(Grabbable);
+    }
+
+    /** @override */
+    onActivate(): void {
+        this._grabbable?.onGrabEnd.add(this._onGrabEnd);
+    }
+
+    /** @override */
+    onDeactivate(): void {
+        if (this._grabbable && !this._grabbable.isDestroyed) {
+            this._grabbable.onGrabEnd.remove(this._onGrabEnd);
+        }
+    }
+
+    /** @override */
+    update() {
+        const min = this._constraint.min[this.axis];
+        const max = this._constraint.max[this.axis];
+        const position = this.object.getPositionLocal(TempVec3.get());
+        const raw = Math.min(Math.max((position[this.axis] - min) / (max - min), 0), 1);
+        TempVec3.free();
+
+        const value = quantize(raw, this.steps);
+        if (value === this._value) {
+            return;
+        }
+        this._value = value;
+        this.onValueChanged.notify(this, value);
+    }
+
+    /** Normalized value, in the range `[0, 1]`. */
+    get value(): number {
+        return Math.max(this._value, 0.0);
+    }
+
+    /**
+     * Move the slider to a value.
+     *
+     * @note The value is snapped to the closest detent, if any.
+     *
+     * @param value The value, in the range `[0, 1]`.
+     */
+    set value(value: number) {
+        const min = this._constraint.min[this.axis];
+        const max = this._constraint.max[this.axis];
+        const t = quantize(Math.min(Math.max(value, 0), 1), this.steps);
+
+        const position = this.object.getPositionLocal(TempVec3.get());
+        position[this.axis] = min + t * (max - min);
+        this.object.setPositionLocal(position);
+        TempVec3.free();
+        this._grabbable?.markMoved();
+    }
+
+    private _onGrabEnd = () => {
+        /* Move onto the detent matching the value */
+        if (this.steps >= 2) {
+            this.value = this._value;
+        }
+    };
+}
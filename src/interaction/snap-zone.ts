@@ -0,0 +1,290 @@
+import {
+    clamp,
+    Component,
+    Emitter,
+    Object3D,
+    PhysXComponent,
+    property,
+    Property,
+} from '@wonderlandengine/api';
+import {vec3} from 'gl-matrix';
+
+import {Grabbable} from './grabbable.js';
+import {lerpTransform} from '../utils/math.js';
+import {setPhysxKinematic} from '../utils/wle.js';
+import {TempQuat, TempVec3} from '../internal-constants.js';
+
+/** Zone each snapped grabbable is attached to. */
+const Owners = new WeakMap<Grabbable, SnapZone>();
+
+/**
+ * Socket into which a {@link Grabbable} can be placed, e.g., a battery
+ * into a flashlight, or a key into a lock.
+ *
+ * When a grabbable is released in range of the zone, it's smoothly attached
+ * to the {@link anchor}, and follows it until ejected.
+ *
+ * @example
+ * ```js
+ * const zone = object.getComponent(SnapZone);
+ * zone.onSnap.add((zone, grabbable) => {
+ *     console.log(`${grabbable.object.name} plugged in`);
+ * });
+ * ```
+ */
+export class SnapZone extends Component {
+    static TypeName = 'snap-zone';
+
+    /** Properties */
+
+    /**
+     * Object onto which the grabbable is attached.
+     *
+     * @note If no object is provided, this object is used as the anchor.
+     */
+    @property.object()
+    anchor: Object3D | null = null;
+
+    /** Maximum distance, in **meters**, between the released grabbable and the anchor. */
+    @property.float(0.1)
+    radius = 0.1;
+
+    /**
+     * Lerp value used when attaching the grabbable.
+     *
+     * Behaves just like {@link GrabPoint.snapLerp}.
+     *
+     * @note This value is clamped in the range `[0, 1]`.
+     */
+    @property.float(0.25)
+    snapLerp = 0.25;
+
+    /**
+     * If not empty, only grabbables with the same {@link Grabbable.tag} can be snapped.
+     */
+    @property.string()
+    tag = '';
+
+    /**
+     * If not empty, only grabbables whose object has a component
+     * of this type can be snapped.
+     */
+    @property.string()
+    requiredComponent = '';
+
+    /**
+     * If not empty, only grabbables on those objects can be snapped.
+     */
+    @property.array(Property.object())
+    allowList: Object3D[] = [];
+
+    /**
+     * If `true`, grabbing the snapped grabbable ejects it.
+     *
+     * When `false`, the snapped grabbable can only be ejected using {@link eject}.
+     */
+    @property.bool(true)
+    ejectable = true;
+
+    /** Public Attributes */
+
+    /** Notifies once a grabbable is attached to this zone. */
+    onSnap: Emitter<[this, Grabbable]> = new Emitter();
+
+    /** Notifies once a grabbable is detached from this zone. */
+    onUnsnap: Emitter<[this, Grabbable]> = new Emitter();
+
+    /**
+     * Retrieve the zone a grabbable is snapped to.
+     *
+     * @param grabbable The grabbable.
+     * @returns The zone, or `null` if the grabbable isn't snapped.
+     */
+    static zoneOf(grabbable: Grabbable): SnapZone | null {
+        return Owners.get(grabbable) ?? null;
+    }
+
+    /** Private Attributes */
+
+    /** Currently snapped grabbable. */
+    private _snapped: Grabbable | null = null;
+
+    /** Kinematic state of the snapped grabbable physx, restored on eject. */
+    private _wasKinematic = false;
+
+    /** Active state of the snapped grabbable, restored on eject, `null` if untouched. */
+    private _wasActive: boolean | null = null;
+
+    /** `true` if the grabbable should continue lerping to the anchor. */
+    private _lerp = false;
+
+    /** @override */
+    onActivate(): void {
+        /* Candidates are checked once released, including grabbables spawned later */
+        Grabbable.OnAnyGrabStart.add(this._onGrabStart);
+        Grabbable.OnAnyGrabEnd.add(this._onGrabEnd);
+    }
+
+    /** @override */
+    onDeactivate(): void {
+        Grabbable.OnAnyGrabStart.remove(this._onGrabStart);
+        Grabbable.OnAnyGrabEnd.remove(this._onGrabEnd);
+    }
+
+    /** @override */
+    onDestroy(): void {
+        if (this._snapped && Owners.get(this._snapped) === this) {
+            Owners.delete(this._snapped);
+        }
+    }
+
+    /** @override */
+    update(): void {
+        const grabbable = this._snapped;
+        if (!grabbable) {
+            return;
+        }
+        if (grabbable.isDestroyed) {
+            this._snapped = null;
+            return;
+        }
+
+        const anchor = this.anchor ?? this.object;
+        const position = anchor.getPositionWorld(TempVec3.get());
+        const rotation = anchor.getRotationWorld(TempQuat.get());
+
+        if (this._lerp) {
+            const currentPos = grabbable.object.getPositionWorld(TempVec3.get());
+            const currentRot = grabbable.object.getRotationWorld(TempQuat.get());
+            this._lerp = lerpTransform(
+                position,
+                rotation,
+                currentPos,
+                currentRot,
+                position,
+                rotation,
+                clamp(this.snapLerp, 0, 1)
+            );
+            TempVec3.free();
+            TempQuat.free();
+        }
+
+        grabbable.object.setPositionWorld(position);
+        grabbable.object.setRotationWorld(rotation);
+        grabbable.markMoved();
+
+        TempVec3.free();
+        TempQuat.free();
+    }
+
+    /**
+     * Check whether a grabbable passes the filters of this zone.
+     *
+     * @param grabbable The grabbable to check.
+     * @returns `true` if the grabbable can be snapped, `false` otherwise.
+     */
+    accepts(grabbable: Grabbable): boolean {
+        if (this.tag && grabbable.tag !== this.tag) {
+            return false;
+        }
+        if (
+            this.requiredComponent &&
+            !grabbable.object.getComponent(this.requiredComponent)
+        ) {
+            return false;
+        }
+        return (
+            !this.allowList.length || this.allowList.some((o) => o.equals(grabbable.object))
+        );
+    }
+
+    /**
+     * Programmatically attach a grabbable to this zone.
+     *
+     * @note Any previously snapped grabbable is ejected first, and the grabbable
+     * is ejected from the zone it's currently snapped to, if any.
+     *
+     * @param grabbable The grabbable to attach.
+     */
+    snap(grabbable: Grabbable) {
+        if (this._snapped) {
+            this.eject();
+        }
+        SnapZone.zoneOf(grabbable)?.eject();
+
+        this._snapped = grabbable;
+        this._lerp = true;
+        Owners.set(grabbable, this);
+
+        const physx = grabbable.object.getComponent(PhysXComponent);
+        if (physx) {
+            this._wasKinematic = physx.kinematic;
+            setPhysxKinematic(physx, true);
+        }
+        if (!this.ejectable) {
+            /* Prevents interactors from finding the grabbable */
+            this._wasActive = grabbable.active;
+            grabbable.active = false;
+        }
+
+        this.onSnap.notify(this, grabbable);
+    }
+
+    /**
+     * Programmatically detach the currently snapped grabbable.
+     */
+    eject() {
+        const grabbable = this._snapped;
+        if (!grabbable) {
+            return;
+        }
+        this._snapped = null;
+        Owners.delete(grabbable);
+
+        const wasActive = this._wasActive;
+        this._wasActive = null;
+        if (!grabbable.isDestroyed) {
+            if (wasActive !== null) {
+                grabbable.active = wasActive;
+            }
+            /* Grabbed objects already have their physx state managed */
+            const physx = grabbable.object.getComponent(PhysXComponent);
+            if (physx && !grabbable.isGrabbed) {
+                setPhysxKinematic(physx, this._wasKinematic);
+            }
+        }
+
+        this.onUnsnap.notify(this, grabbable);
+    }
+
+    /** Currently snapped grabbable, `null` if none. */
+    get snapped(): Grabbable | null {
+        return this._snapped;
+    }
+
+    private _onGrabStart = (grabbable: Grabbable) => {
+        if (grabbable === this._snapped) {
+            this.eject();
+        }
+    };
+
+    private _onGrabEnd = (grabbable: Grabbable) => {
+        if (grabbable.scene !== this.scene) {
+            return;
+        }
+        /* Overlapping zones: the first zone in range claims the grabbable */
+        if (this._snapped || SnapZone.zoneOf(grabbable) || !this.accepts(grabbable)) {
+            return;
+        }
+
+        const anchor = this.anchor ?? this.object;
+        const source = grabbable.object.getPositionWorld(TempVec3.get());
+        const target = anchor.getPositionWorld(TempVec3.get());
+        const inRange = vec3.squaredDistance(source, target) <= this.radius * this.radius;
+        TempVec3.free(2);
+
+        if (inRange) {
+            this.snap(grabbable);
+        }
+    };
+}
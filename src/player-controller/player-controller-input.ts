@@ -1,6 +1,8 @@
 import {Component, InputComponent, Object3D, property} from '@wonderlandengine/api';
 import {vec3} from 'gl-matrix';
 
+import {Handedness} from '../interaction/hand-pose.js';
+import {XRButton, XRButtonNames, xrButtonIndex} from '../interaction/interactor-input.js';
 import {componentError} from '../utils/wle.js';
 
 /**
@@ -68,6 +70,15 @@ export interface PlayerControllerInput extends Component {
      * @returns The `out` parameter;
      */
     getMovementAxis(out: vec3): vec3;
+    /**
+     * Get the hand grabbing the world, used by {@link PlayerController.worldGrab}.
+     *
+     * @note Optional, world grab is disabled if not implemented.
+     *
+     * @param handedness The hand.
+     * @returns The hand object, or `null` if the hand isn't grabbing the world.
+     */
+    getWorldGrabHand?(handedness: Handedness.Left | Handedness.Right): Object3D | null;
 }
 
 enum Direction {
@@ -124,6 +135,15 @@ export class DefaultPlayerControllerInput
     @property.float(0.1)
     deadzoneThreshold = 0.1;
 
+    /**
+     * Button held to grab the world, used by {@link PlayerController.worldGrab}.
+     *
+     * @note Avoid the buttons bound to `DefaultInteractorInput`: the world
+     * would be grabbed for a frame before the interactor grabs an object.
+     */
+    @property.enum(XRButtonNames, XRButton.SecondaryButton)
+    worldGrabButton = XRButton.SecondaryButton;
+
     /* Keyboard private attributes */
 
     private _keyPress = [false, false, false, false];
@@ -212,6 +232,19 @@ export class DefaultPlayerControllerInput
         return out;
     }
 
+    /** @override */
+    getWorldGrabHand(handedness: Handedness.Left | Handedness.Right) {
+        const input = handedness === Handedness.Left ? this._inputLeft : this._inputRight;
+        const button =
+            input?.xrInputSource?.gamepad?.buttons[xrButtonIndex(this.worldGrabButton)];
+        if (!button?.pressed) {
+            return null;
+        }
+        return handedness === Handedness.Left
+            ? this.leftControlObject
+            : this.rightControlObject;
+    }
+
     /** @hidden */
     private _onKeyPressed = (input: KeyboardEvent) => {
         const direction = KeyToDirection[input.code];
@@ -1,5 +1,6 @@
 import {
     Component,
+    Emitter,
     InputComponent,
     InputType,
     LockAxis,
@@ -16,9 +17,18 @@ import {
     PlayerControllerInput,
 } from './player-controller-input.js';
 import {EPSILON, FORWARD, UP, ZERO_VEC3} from '../constants.js';
-import {componentError, enumStringKeys} from '../utils/wle.js';
-import {TempDualQuat, TempVec3} from '../internal-constants.js';
-import {toRad} from '../utils/math.js';
+import {
+    componentError,
+    enumStringKeys,
+    setComponentsActive,
+    setPhysxKinematic,
+} from '../utils/wle.js';
+import {TempDualQuat, TempQuat, TempVec3} from '../internal-constants.js';
+import {toDegree, toRad} from '../utils/math.js';
+import {HistoryTracker} from '../history-tracker.js';
+import {Grabbable} from '../interaction/grabbable.js';
+import {Interactor} from '../interaction/interactor.js';
+import {Handedness} from '../interaction/hand-pose.js';
 
 /* Constants */
 
@@ -26,6 +36,38 @@ const BASE_ROT_SPEED = 25;
 const SNAP_LOW_THRESHOLD = 0.2;
 const SNAP_HIGH_THRESHOLD = 0.2;
 
+const GRAVITY = 9.81;
+/** Number of segments used to cast the teleport arc. */
+const TELEPORT_ARC_STEPS = 32;
+/** Duration, in **seconds**, of each teleport arc segment. */
+const TELEPORT_ARC_STEP_TIME = 0.05;
+/** Movement axis length to start aiming. */
+const TELEPORT_AIM_THRESHOLD = 0.6;
+/** Movement axis length under which the teleport is confirmed. */
+const TELEPORT_RELEASE_THRESHOLD = 0.2;
+/** Vignette intensity difference under which the target intensity is considered reached. */
+const VIGNETTE_EPSILON = 0.001;
+/** Distance, in **meters**, between the hands under which two-handed world grab only translates. */
+const WORLD_GRAB_MIN_SPAN = 0.05;
+/** Hands able to grab the world. */
+const WORLD_GRAB_HANDS = [Handedness.Left, Handedness.Right] as const;
+
+/**
+ * The type of locomotion used to move the player
+ */
+export enum LocomotionType {
+    /** Continuous movement, driven by the movement axis. */
+    Smooth = 0,
+    /**
+     * Aim with the movement axis, and teleport once released.
+     *
+     * It's the most comfortable for most people.
+     */
+    Teleport = 1,
+}
+/** List of string keys for {@link LocomotionType}. */
+export const LocomotionTypeNames = enumStringKeys(LocomotionType);
+
 /**
  * The type of rotation to use when turning the player
  */
@@ -47,6 +89,15 @@ export enum RotationType {
 /** List of string keys for {@link RotationType}. */
 export const RotationTypeNames = enumStringKeys(RotationType);
 
+/** Hand holding a {@link Grabbable.climbable} object. */
+interface ClimbGrab {
+    interactor: Interactor;
+    /** Position, in **world space**, at which the hand is pinned. */
+    anchor: vec3;
+    /** Hand movement history, relative to the player, used to fling the player once released. */
+    history: HistoryTracker;
+}
+
 /**
  * Simpler character controller for smooth locomotin.
  *
@@ -77,10 +128,67 @@ export class PlayerController extends Component {
 
     /* Locomotion properties */
 
+    /** Locomotion driven by the movement axis, defaults to {@link LocomotionType.Smooth}. */
+    @property.enum(LocomotionTypeNames, LocomotionType.Smooth)
+    locomotionType = LocomotionType.Smooth;
+
     /** Walk speed multiplier. */
     @property.float(1)
     walkSpeed = 1;
 
+    /**
+     * Duration, in **seconds**, of the fade hiding the teleport and the snap blink.
+     *
+     * Use {@link onFadeOut} and {@link onFadeIn} to perform the fade.
+     */
+    @property.float(0.15)
+    fadeDuration = 0.15;
+
+    /* Teleport properties */
+
+    /**
+     * Object from which the teleport arc is cast, e.g., a controller.
+     *
+     * @note If not provided, the arc is cast from the active camera.
+     */
+    @property.object()
+    teleportOrigin: Object3D | null = null;
+
+    /** Object placed at the teleport destination while aiming. */
+    @property.object()
+    teleportIndicator: Object3D | null = null;
+
+    /** Initial speed, in **meters per second**, of the teleport arc. */
+    @property.float(8)
+    teleportSpeed = 8;
+
+    /**
+     * Physx groups the teleport arc collides with, defaults to the first group.
+     *
+     * Keep the player and held objects out of those groups, otherwise the arc
+     * hits them. Add the walls to block the arc.
+     */
+    @property.int(0x01)
+    teleportMask = 0x01;
+
+    /**
+     * Physx groups of the objects that are valid teleport destinations,
+     * e.g., the floor or a navmesh, defaults to the first group.
+     */
+    @property.int(0x01)
+    teleportFloorMask = 0x01;
+
+    /** Maximum slope, in **degrees**, of a valid teleport destination. */
+    @property.float(30)
+    teleportMaxSlope = 30;
+
+    /**
+     * If `true`, the movement axis direction selects the rotation
+     * to apply at the teleport destination.
+     */
+    @property.bool(true)
+    teleportRotation = true;
+
     /* Rotation properties */
 
     @property.enum(RotationTypeNames, RotationType.Snap)
@@ -100,6 +208,88 @@ export class PlayerController extends Component {
     @property.float(1)
     rotationSpeed = 1;
 
+    /* Comfort properties */
+
+    /**
+     * If `true`, the snap rotation is hidden behind a fade.
+     *
+     * @note Only used when {@link transformType} is {@link RotationType.Snap}.
+     */
+    @property.bool(false)
+    snapBlink = false;
+
+    /**
+     * If `true`, a tunneling vignette intensity is computed from the movement
+     * and the smooth rotation speeds, and notified via {@link onVignetteChanged}.
+     */
+    @property.bool(true)
+    vignette = true;
+
+    /** Linear speed, in **meters per second**, at which the vignette is fully visible. */
+    @property.float(2)
+    vignetteLinearSpeed = 2;
+
+    /** Angular speed, in **degrees per second**, at which the vignette is fully visible. */
+    @property.float(60)
+    vignetteAngularSpeed = 60;
+
+    /**
+     * Time, in **seconds**, for the vignette to reach its target intensity.
+     *
+     * Prevents the vignette from popping when starting / stopping to move.
+     */
+    @property.float(0.2)
+    vignetteSmoothing = 0.2;
+
+    /* Climbing properties */
+
+    /**
+     * If `true`, grabbing a {@link Grabbable.climbable} object pins the hand,
+     * and moves the player instead.
+     */
+    @property.bool(false)
+    climbing = false;
+
+    /**
+     * Multiplier applied to the climbing velocity once all hands release.
+     *
+     * The climbing velocity is the opposite of the releasing hand velocity,
+     * relative to the player.
+     */
+    @property.float(1.0)
+    climbFlingIntensity = 1.0;
+
+    /** Maximum speed, in **meters per second**, of the fling once all hands release. */
+    @property.float(5.0)
+    climbMaxFlingSpeed = 5.0;
+
+    /* World grab properties */
+
+    /**
+     * If `true`, holding the world grab button drags the player by the inverse
+     * of the hand motion, i.e., the player "grabs the air" to move.
+     *
+     * @note Requires {@link PlayerControllerInput.getWorldGrabHand}.
+     */
+    @property.bool(false)
+    worldGrab = false;
+
+    /** If `true`, grabbing the world with both hands rotates the player around the hands. */
+    @property.bool(true)
+    worldGrabRotation = true;
+
+    /** If `true`, grabbing the world with both hands scales the player around the hands. */
+    @property.bool(false)
+    worldGrabScale = false;
+
+    /** Minimum scale of {@link trackedSpace} reached using {@link worldGrabScale}. */
+    @property.float(0.1)
+    worldGrabMinScale = 0.1;
+
+    /** Maximum scale of {@link trackedSpace} reached using {@link worldGrabScale}. */
+    @property.float(10.0)
+    worldGrabMaxScale = 10.0;
+
     /**
      * Input to feed the controller.
      *
@@ -119,11 +309,73 @@ export class PlayerController extends Component {
      */
     input!: PlayerControllerInput;
 
+    /** Notifies once the player is teleported, with the destination in **world space**. */
+    onTeleport: Emitter<[this, vec3]> = new Emitter();
+
+    /** Notifies once the view must fade out, with the fade duration in **seconds**. */
+    onFadeOut: Emitter<[number]> = new Emitter();
+
+    /** Notifies once the view must fade in, with the fade duration in **seconds**. */
+    onFadeIn: Emitter<[number]> = new Emitter();
+
+    /**
+     * Notifies once the vignette intensity changes, in the range `[0, 1]`.
+     *
+     * @example
+     * ```js
+     * player.onVignetteChanged.add((intensity) => {
+     *     vignetteMaterial.intensity = intensity;
+     * });
+     * ```
+     */
+    onVignetteChanged: Emitter<[number]> = new Emitter();
+
+    /** Notifies once the player starts climbing. */
+    onClimbStart: Emitter<[this]> = new Emitter();
+
+    /** Notifies once the player stops climbing, with the fling velocity in **world space**. */
+    onClimbEnd: Emitter<[this, vec3]> = new Emitter();
+
     private _activeCamera!: ActiveCamera;
     private _physx!: PhysXComponent;
 
     private _snapped = false;
 
+    /** `true` if the player is aiming for a teleport destination. */
+    private _aiming = false;
+    /** `true` if {@link _teleportTarget} is a valid destination. */
+    private _teleportValid = false;
+    /** Teleport destination, in **world space**. */
+    private _teleportTarget = vec3.create();
+    /** Rotation, in **degrees**, to apply at the teleport destination. */
+    private _teleportAngle = 0;
+
+    /** Actions to perform once faded out, in request order. */
+    private _fadeActions: (() => void)[] = [];
+    /** Remaining fade out time, in **seconds**. */
+    private _fadeTimer = 0;
+
+    /** Linear speed, in **meters per second**, of the current frame. */
+    private _linearSpeed = 0;
+    /** Smooth angular speed, in **degrees per second**, of the current frame. */
+    private _angularSpeed = 0;
+    /** Current vignette intensity. */
+    private _vignetteIntensity = 0;
+
+    /** Interactors of this scene currently holding a grabbable. */
+    private _holdingInteractors = new Set<Interactor>();
+    /** Hands holding a climbable object, the last one moves the player. */
+    private _climbGrabs: ClimbGrab[] = [];
+    /** `true` if the player physx is kinematic while moved by hand. */
+    private _physxSuspended = false;
+    /** Kinematic state of the player physx, restored once no longer moved by hand. */
+    private _wasKinematic = false;
+
+    /** Hands grabbing the world, indexed like {@link WORLD_GRAB_HANDS}. */
+    private _worldGrabHands: (Object3D | null)[] = [null, null];
+    /** Position, in **world space**, at which each hand grabbed the world. */
+    private _worldGrabAnchors = [vec3.create(), vec3.create()];
+
     /** @override */
     start() {
         let maybeCamera = this.object.getComponent(ActiveCamera);
@@ -235,10 +487,46 @@ export class PlayerController extends Component {
         this._physx.angularLockAxis = LockAxis.X | LockAxis.Y | LockAxis.Z;
 
         this._snapped = false;
+        this._aiming = false;
+        this._fadeActions.length = 0;
+        this._setVignetteIntensity(0.0);
+        if (this.teleportIndicator) {
+            setComponentsActive(this.teleportIndicator, false);
+        }
+
+        Interactor.OnAnyGrabStart.add(this._onInteractorGrabStart);
+        Interactor.OnAnyGrabEnd.add(this._onInteractorGrabEnd);
+    }
+
+    /** @override */
+    onDeactivate(): void {
+        Interactor.OnAnyGrabStart.remove(this._onInteractorGrabStart);
+        Interactor.OnAnyGrabEnd.remove(this._onInteractorGrabEnd);
+
+        this._holdingInteractors.clear();
+        this._climbGrabs.length = 0;
+        this._worldGrabHands.fill(null);
+        this._suspendPhysx(false);
     }
 
     /** @override */
     update(dt: number): void {
+        /* Fade update */
+
+        if (this._fadeActions.length) {
+            this._fadeTimer -= dt;
+            if (this._fadeTimer <= 0.0) {
+                const actions = this._fadeActions.splice(0);
+                for (const action of actions) {
+                    action();
+                }
+                this.onFadeIn.notify(this.fadeDuration);
+            }
+        }
+
+        this._linearSpeed = 0.0;
+        this._angularSpeed = 0.0;
+
         /* Rotation update */
 
         const inputRotation = TempVec3.get();
@@ -264,20 +552,64 @@ export class PlayerController extends Component {
                 const value = inputRotation[0];
                 if (Math.abs(value) > EPSILON) {
                     rotation = value * this.rotationSpeed * dt * BASE_ROT_SPEED;
+                    this._angularSpeed = Math.abs(rotation) / dt;
                 }
                 break;
             }
         }
         if (Math.abs(rotation) > EPSILON) {
-            this.rotate(-rotation);
+            if (this.snapBlink && this.transformType === RotationType.Snap) {
+                this._fade(() => this.rotate(-rotation));
+            } else {
+                this.rotate(-rotation);
+            }
         }
 
         /* Position update */
 
         const movement = TempVec3.get();
         this.input.getMovementAxis(movement);
-        if (!vec3.equals(movement, ZERO_VEC3)) {
-            this.move(movement);
+        if (this._climbGrabs.length) {
+            /* Climbing replaces the locomotion */
+            vec3.zero(movement);
+            this._updateClimb(dt);
+        } else if (this._updateWorldGrab(dt)) {
+            /* So does grabbing the world. The aim is canceled rather than
+             * released, which would teleport. */
+            vec3.zero(movement);
+            this._aiming = false;
+        }
+        switch (this.locomotionType) {
+            case LocomotionType.Smooth:
+                if (!vec3.equals(movement, ZERO_VEC3)) {
+                    this.move(movement);
+                }
+                break;
+            case LocomotionType.Teleport:
+                this._updateTeleport(movement);
+                break;
+        }
+
+        /* Comfort update */
+
+        if (this.vignette) {
+            const target = Math.min(
+                Math.max(
+                    this._linearSpeed / this.vignetteLinearSpeed,
+                    this._angularSpeed / this.vignetteAngularSpeed
+                ),
+                1.0
+            );
+            const t = this.vignetteSmoothing > 0.0 ? dt / this.vignetteSmoothing : 1.0;
+            let intensity = this._vignetteIntensity;
+            intensity += (target - intensity) * Math.min(t, 1.0);
+            /* Snap to the target to stop notifying once it's reached */
+            if (Math.abs(target - intensity) < VIGNETTE_EPSILON) {
+                intensity = target;
+            }
+            this._setVignetteIntensity(intensity);
+        } else {
+            this._setVignetteIntensity(0.0);
         }
 
         TempVec3.free(2);
@@ -297,10 +629,41 @@ export class PlayerController extends Component {
         vec3.scale(direction, direction, this.walkSpeed);
 
         this._physx.linearVelocity = direction;
+        this._linearSpeed = vec3.length(direction);
 
         TempVec3.free();
     }
 
+    /**
+     * Teleports the player, such that the active camera is right above the destination.
+     *
+     * @note The player origin is expected to be on the floor.
+     *
+     * @param position The destination, in **world space**.
+     * @param angle The rotation to apply once teleported, in **degrees**.
+     */
+    teleport(position: vec3, angle = 0) {
+        const camera = this._activeCamera.getPositionWorld(TempVec3.get());
+        const target = this.object.getPositionWorld(TempVec3.get());
+        target[0] += position[0] - camera[0];
+        target[1] = position[1];
+        target[2] += position[2] - camera[2];
+
+        /* Required to move the physx object */
+        this._physx.active = false;
+        this.object.setPositionWorld(target);
+        this._physx.active = true;
+        this._physx.linearVelocity = ZERO_VEC3;
+
+        if (Math.abs(angle) > EPSILON) {
+            this.rotate(angle);
+        }
+
+        TempVec3.free(2);
+
+        this.onTeleport.notify(this, position);
+    }
+
     rotate(angle: number) {
         /* Retrieve eye world transform.
          *
@@ -326,14 +689,448 @@ export class PlayerController extends Component {
         const inverse = quat2.invert(source, source);
         const delta = quat2.multiply(target, target, inverse);
         quat2.normalize(delta, delta);
+        this._applyTrackedSpaceDelta(delta);
+
+        TempDualQuat.free(2);
+        TempVec3.free();
+    }
+
+    /** `true` if the player is currently climbing. */
+    get isClimbing() {
+        return this._climbGrabs.length > 0;
+    }
+
+    /** `true` if the player is currently grabbing the world. */
+    get isWorldGrabbing() {
+        return this._worldGrabHands.some((hand) => hand !== null);
+    }
+
+    /** Current vignette intensity, in the range `[0, 1]`. */
+    get vignetteIntensity() {
+        return this._vignetteIntensity;
+    }
 
-        /* Apply delta to parent tracked space */
+    /**
+     * Move the player such that the climbing hand stays pinned.
+     *
+     * @param dt The delta time, in **seconds**.
+     */
+    private _updateClimb(dt: number) {
+        /* Sample the hands before they are pinned back in place */
+        for (const {interactor, history} of this._climbGrabs) {
+            const xrPose = interactor.input.xrPose;
+            if (xrPose) {
+                history.updateFromPose(
+                    xrPose,
+                    interactor.trackedSpace,
+                    interactor.object,
+                    dt
+                );
+            } else {
+                history.update(interactor.object, dt);
+            }
+        }
+
+        const grab = this._climbGrabs[this._climbGrabs.length - 1];
+        const hand = grab.interactor.object.getPositionWorld(TempVec3.get());
+        const delta = vec3.subtract(TempVec3.get(), grab.anchor, hand);
+        this._translate(delta);
+        /* The hands are carried along by the player, which isn't a hand motion */
+        for (const {history} of this._climbGrabs) {
+            history.translate(delta);
+        }
+
+        this._linearSpeed = dt > 0.0 ? vec3.length(delta) / dt : 0.0;
+
+        TempVec3.free(2);
+    }
+
+    /**
+     * Translate the player object, i.e., the physx capsule and {@link trackedSpace} along.
+     *
+     * Like {@link teleport}, the player object is moved rather than
+     * {@link trackedSpace}, for the physx capsule to follow the player.
+     *
+     * @note The physx must be kinematic, see {@link _suspendPhysx}.
+     *
+     * @param offset The translation, in **world space**.
+     */
+    private _translate(offset: vec3) {
+        const position = this.object.getPositionWorld(TempVec3.get());
+        vec3.add(position, position, offset);
+        this.object.setPositionWorld(position);
+        TempVec3.free();
+    }
+
+    /**
+     * Make the player physx kinematic while moved by hand, i.e., climbing or
+     * grabbing the world: gravity would make it slide.
+     *
+     * @param suspend `true` to make the physx kinematic, `false` to restore its state.
+     */
+    private _suspendPhysx(suspend: boolean) {
+        if (suspend === this._physxSuspended) {
+            return;
+        }
+        this._physxSuspended = suspend;
+        if (suspend) {
+            this._wasKinematic = this._physx.kinematic;
+            setPhysxKinematic(this._physx, true);
+        } else {
+            setPhysxKinematic(this._physx, this._wasKinematic);
+        }
+    }
+
+    /**
+     * Apply a delta to {@link trackedSpace}.
+     *
+     * @param delta The delta transform, in **world space**.
+     */
+    private _applyTrackedSpaceDelta(delta: quat2) {
         const transform = this.trackedSpace.getTransformWorld(TempDualQuat.get());
         quat2.multiply(transform, delta, transform);
         quat2.normalize(transform, transform);
         this.trackedSpace.setTransformWorld(transform);
+        TempDualQuat.free();
+    }
+
+    /**
+     * Drag the player such that the hands grabbing the world stay pinned.
+     *
+     * With a single hand, the player is translated. With both hands, the player
+     * is also rotated around the up axis and, optionally, scaled around the
+     * midpoint of the hands.
+     *
+     * Like climbing, the translation is applied to the player object, see {@link _translate}.
+     * Like {@link rotate}, the rotation and scale are applied to {@link trackedSpace}.
+     *
+     * @param dt The delta time, in **seconds**.
+     * @returns `true` if the world is grabbed, `false` otherwise.
+     */
+    private _updateWorldGrab(dt: number): boolean {
+        let count = 0;
+        let changed = false;
+        for (let i = 0; i < WORLD_GRAB_HANDS.length; ++i) {
+            let hand: Object3D | null = null;
+            if (this.worldGrab) {
+                hand = this.input.getWorldGrabHand?.(WORLD_GRAB_HANDS[i]) ?? null;
+            }
+            if (hand && this._isHandHolding(hand)) {
+                hand = null;
+            }
+            if (hand !== this._worldGrabHands[i]) {
+                changed = true;
+                this._worldGrabHands[i] = hand;
+            }
+            if (hand) {
+                ++count;
+            }
+        }
+
+        if (changed) {
+            /* Grabbing or releasing with one hand pins the hands where they currently are */
+            for (let i = 0; i < WORLD_GRAB_HANDS.length; ++i) {
+                this._worldGrabHands[i]?.getPositionWorld(this._worldGrabAnchors[i]);
+            }
+            this._suspendPhysx(count > 0);
+            if (count === 0) {
+                this._physx.linearVelocity = ZERO_VEC3;
+            }
+            return count > 0;
+        }
+        if (count === 0) {
+            return false;
+        }
+
+        const hands = this._worldGrabHands;
+        const anchors = this._worldGrabAnchors;
+        const source = TempVec3.get();
+        const target = TempVec3.get();
+        const delta = TempDualQuat.get();
+
+        if (count === 1) {
+            const i = hands[0] ? 0 : 1;
+            hands[i]!.getPositionWorld(source);
+            vec3.subtract(target, anchors[i], source);
+            this._translate(target);
+            this._linearSpeed = dt > 0.0 ? vec3.length(target) / dt : 0.0;
+
+            TempDualQuat.free();
+            TempVec3.free(2);
+            return true;
+        }
+
+        const left = hands[0]!.getPositionWorld(TempVec3.get());
+        const right = hands[1]!.getPositionWorld(TempVec3.get());
+
+        /* Midpoints of the hands, currently and once grabbed */
+        vec3.lerp(source, left, right, 0.5);
+        vec3.lerp(target, anchors[0], anchors[1], 0.5);
+
+        /* Span between the hands, currently and once grabbed */
+        const span = vec3.subtract(left, right, left);
+        const anchorSpan = vec3.subtract(right, anchors[1], anchors[0]);
+
+        let angle = 0.0;
+        if (
+            this.worldGrabRotation &&
+            Math.hypot(span[0], span[2]) > WORLD_GRAB_MIN_SPAN &&
+            Math.hypot(anchorSpan[0], anchorSpan[2]) > WORLD_GRAB_MIN_SPAN
+        ) {
+            angle = Math.atan2(span[2], span[0]) - Math.atan2(anchorSpan[2], anchorSpan[0]);
+        }
+
+        /* Rotate around the current midpoint, and move it onto the grabbed one */
+        const rotation = quat.setAxisAngle(TempQuat.get(), UP, angle);
+        const translation = vec3.transformQuat(TempVec3.get(), source, rotation);
+        vec3.subtract(translation, source, translation);
+        quat2.fromRotationTranslation(delta, rotation, translation);
+        this._applyTrackedSpaceDelta(delta);
+        this._translate(vec3.subtract(translation, target, source));
+        this._linearSpeed = dt > 0.0 ? vec3.distance(source, target) / dt : 0.0;
+        this._angularSpeed = dt > 0.0 ? toDegree(Math.abs(angle)) / dt : 0.0;
+
+        const length = vec3.length(span);
+        if (this.worldGrabScale && length > WORLD_GRAB_MIN_SPAN) {
+            /* Spreading the hands apart makes the world bigger, i.e., the player smaller */
+            const scale = this.trackedSpace.getScalingWorld(TempVec3.get());
+            const current = scale[0];
+            const next = Math.min(
+                Math.max(
+                    (current * vec3.length(anchorSpan)) / length,
+                    this.worldGrabMinScale
+                ),
+                this.worldGrabMaxScale
+            );
+            const ratio = next / current;
+            if (Math.abs(ratio - 1.0) > EPSILON) {
+                /* Scale around the grabbed midpoint, where the hands now are */
+                const position = this.trackedSpace.getPositionWorld(translation);
+                vec3.subtract(position, position, target);
+                vec3.scaleAndAdd(position, target, position, ratio);
+                this.trackedSpace.setPositionWorld(position);
+                vec3.scale(scale, scale, ratio);
+                this.trackedSpace.setScalingWorld(scale);
+            }
+            TempVec3.free();
+        }
+
+        TempQuat.free();
+        TempDualQuat.free();
+        TempVec3.free(5);
+        return true;
+    }
+
+    /**
+     * Check whether an interactor on a hand is holding a grabbable.
+     *
+     * @param hand The hand object.
+     * @returns `true` if the hand is holding a grabbable, `false` otherwise.
+     */
+    private _isHandHolding(hand: Object3D): boolean {
+        for (const interactor of this._holdingInteractors) {
+            if (interactor.isDestroyed) {
+                /* Destroyed while holding, no grab end is notified */
+                this._holdingInteractors.delete(interactor);
+                continue;
+            }
+            for (let o: Object3D | null = interactor.object; o; o = o.parent) {
+                if (o.equals(hand)) {
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    private _onInteractorGrabStart = (interactor: Interactor, grabbable: Grabbable) => {
+        if (interactor.scene !== this.scene) {
+            return;
+        }
+        this._holdingInteractors.add(interactor);
+        if (!this.climbing || !grabbable.climbable) {
+            return;
+        }
+        const anchor = interactor.object.getPositionWorld(vec3.create());
+        const history = new HistoryTracker();
+        history.reset(interactor.object);
+        this._climbGrabs.push({interactor, anchor, history});
+        if (this._climbGrabs.length > 1) {
+            return;
+        }
+
+        /* Climbing replaces grabbing the world, and keeps the physx suspended */
+        this._worldGrabHands.fill(null);
+        this._suspendPhysx(true);
+
+        this._aiming = false;
+        if (this.teleportIndicator) {
+            setComponentsActive(this.teleportIndicator, false);
+        }
+        this.onClimbStart.notify(this);
+    };
+
+    private _onInteractorGrabEnd = (interactor: Interactor) => {
+        this._holdingInteractors.delete(interactor);
+        const index = this._climbGrabs.findIndex((g) => g.interactor === interactor);
+        if (index < 0) {
+            return;
+        }
+        const [grab] = this._climbGrabs.splice(index, 1);
+
+        const remaining = this._climbGrabs[this._climbGrabs.length - 1];
+        if (remaining) {
+            /* Hand off to the other hand, pinned where it currently is */
+            remaining.interactor.object.getPositionWorld(remaining.anchor);
+            return;
+        }
+
+        /* The player moves opposite to the releasing hand */
+        const velocity = grab.history.velocity(TempVec3.get());
+        vec3.scale(velocity, velocity, -this.climbFlingIntensity);
+        const speed = vec3.length(velocity);
+        if (speed > this.climbMaxFlingSpeed) {
+            vec3.scale(velocity, velocity, this.climbMaxFlingSpeed / speed);
+        }
+
+        this._suspendPhysx(false);
+        this._physx.linearVelocity = velocity;
+        this.onClimbEnd.notify(this, velocity);
+
+        TempVec3.free();
+    };
+
+    /**
+     * Update the vignette intensity, and notify {@link onVignetteChanged}.
+     *
+     * @param intensity The new intensity.
+     */
+    private _setVignetteIntensity(intensity: number) {
+        if (intensity === this._vignetteIntensity) {
+            return;
+        }
+        this._vignetteIntensity = intensity;
+        this.onVignetteChanged.notify(intensity);
+    }
+
+    /**
+     * Perform an action hidden behind a fade, i.e., fade out,
+     * perform the action, and fade in.
+     *
+     * Actions requested while already fading out are queued, and performed
+     * at the same blink.
+     *
+     * @param action The action to perform once faded out.
+     */
+    private _fade(action: () => void) {
+        if (this.fadeDuration <= 0.0 && !this._fadeActions.length) {
+            action();
+            return;
+        }
+        this._fadeActions.push(action);
+        if (this._fadeActions.length > 1) {
+            return;
+        }
+        this._fadeTimer = this.fadeDuration;
+        this.onFadeOut.notify(this.fadeDuration);
+    }
+
+    /**
+     * Aim while the movement axis is pushed, and teleport once released.
+     *
+     * @param movement The movement axis.
+     */
+    private _updateTeleport(movement: vec3) {
+        const length = Math.hypot(movement[0], movement[2]);
+        if (!this._aiming) {
+            this._aiming = length > TELEPORT_AIM_THRESHOLD;
+        } else if (length < TELEPORT_RELEASE_THRESHOLD) {
+            this._aiming = false;
+            if (this._teleportValid) {
+                const target = vec3.copy(vec3.create(), this._teleportTarget);
+                const angle = this._teleportAngle;
+                this._fade(() => this.teleport(target, angle));
+            }
+        }
+
+        if (this._aiming) {
+            this._teleportValid = this._castTeleportArc(this._teleportTarget);
+            if (this.teleportRotation && length > TELEPORT_AIM_THRESHOLD) {
+                this._teleportAngle = toDegree(Math.atan2(-movement[0], -movement[2]));
+            } else if (!this.teleportRotation) {
+                this._teleportAngle = 0;
+            }
+        } else {
+            this._teleportValid = false;
+        }
+
+        const indicator = this.teleportIndicator;
+        if (!indicator) {
+            return;
+        }
+
+        setComponentsActive(indicator, this._teleportValid);
+        if (!this._teleportValid) {
+            return;
+        }
 
-        TempDualQuat.free(3);
+        /* Face the direction the player will be looking at once teleported */
+        const forward = this._activeCamera.getForwardWorld(TempVec3.get());
+        forward[1] = 0;
+        vec3.normalize(forward, forward);
+        const rotation = quat.rotationTo(TempQuat.get(), FORWARD, forward);
+        quat.rotateY(rotation, rotation, toRad(this._teleportAngle));
+        indicator.setPositionWorld(this._teleportTarget);
+        indicator.setRotationWorld(rotation);
         TempVec3.free();
+        TempQuat.free();
+    }
+
+    /**
+     * Cast a parabolic arc from {@link teleportOrigin}.
+     *
+     * @param out The destination, in **world space**.
+     * @returns `true` if the arc hits a valid destination, `false` otherwise.
+     */
+    private _castTeleportArc(out: vec3): boolean {
+        const origin = this.teleportOrigin ?? this._activeCamera.current;
+        const position = origin.getPositionWorld(TempVec3.get());
+        const velocity = origin.getForwardWorld(TempVec3.get());
+        vec3.scale(velocity, velocity, this.teleportSpeed);
+
+        const next = TempVec3.get();
+        const direction = TempVec3.get();
+        const dt = TELEPORT_ARC_STEP_TIME;
+        let valid = false;
+        for (let i = 0; i < TELEPORT_ARC_STEPS; ++i) {
+            vec3.scaleAndAdd(next, position, velocity, dt);
+            next[1] -= 0.5 * GRAVITY * dt * dt;
+            velocity[1] -= GRAVITY * dt;
+
+            vec3.subtract(direction, next, position);
+            const distance = vec3.length(direction);
+            vec3.scale(direction, direction, 1.0 / distance);
+
+            const hit = this.engine.physics!.rayCast(
+                position,
+                direction,
+                this.teleportMask,
+                distance
+            );
+            if (hit.hitCount) {
+                vec3.copy(out, hit.locations[0]);
+                const slope = vec3.dot(hit.normals[0], UP);
+                const physx = hit.objects[0]?.getComponent(PhysXComponent);
+                valid =
+                    slope >= Math.cos(toRad(this.teleportMaxSlope)) &&
+                    !!physx &&
+                    (physx.groupsMask & this.teleportFloorMask) !== 0;
+                break;
+            }
+            vec3.copy(position, next);
+        }
+
+        TempVec3.free(4);
+        return valid;
     }
 }
@@ -1,5 +1,10 @@
 import {quat, quat2, vec3} from 'gl-matrix';
 
+/* Constants */
+
+const LERP_EPSILON_DIST = 0.005; /* Half centimeter. */
+const LERP_EPSILON_ANGLE = toRad(0.5); /* Half a degree */
+
 /**
  * Convert degrees to radians.
  *
@@ -71,3 +76,236 @@ export const computeRelativeTransform = (function () {
         return quat2.fromRotationTranslation(out, rot, position);
     };
 })();
+
+/**
+ * Interpolate a position and rotation pair towards a target.
+ *
+ * @note The output can alias the target.
+ *
+ * @param outPosition Destination position.
+ * @param outRotation Destination rotation.
+ * @param position Source position.
+ * @param rotation Source rotation.
+ * @param targetPosition Target position.
+ * @param targetRotation Target rotation.
+ * @param t Interpolation amount, in the range `[0, 1]`.
+ * @returns `true` if the result moved away from the source, `false` if
+ *     the source is **almost** equal to the target.
+ */
+export function lerpTransform(
+    outPosition: vec3,
+    outRotation: quat,
+    position: vec3,
+    rotation: quat,
+    targetPosition: vec3,
+    targetRotation: quat,
+    t: number
+) {
+    vec3.lerp(outPosition, position, targetPosition, t);
+    quat.slerp(outRotation, rotation, targetRotation, t);
+    quat.normalize(outRotation, outRotation);
+
+    return (
+        !isPointEqual(outPosition, position, LERP_EPSILON_DIST) ||
+        !(quat.getAngle(outRotation, rotation) < LERP_EPSILON_ANGLE)
+    );
+}
+
+/**
+ * Decompose a rotation into a swing and a twist around an axis, such that:
+ * `rotation = swing * twist`.
+ *
+ * @note The twist is always taking the shortest path, i.e., its `w` component is positive.
+ *
+ * @param outSwing Destination swing rotation.
+ * @param outTwist Destination twist rotation, around `axis`.
+ * @param rotation The rotation to decompose.
+ * @param axis The normalized twist axis.
+ * @returns The signed twist angle, in **radians**.
+ */
+export function swingTwist(outSwing: quat, outTwist: quat, rotation: quat, axis: vec3) {
+    /* Projection of the rotation axis onto the twist axis */
+    const d = rotation[0] * axis[0] + rotation[1] * axis[1] + rotation[2] * axis[2];
+    quat.set(outTwist, axis[0] * d, axis[1] * d, axis[2] * d, rotation[3]);
+    if (quat.squaredLength(outTwist) < 1e-12) {
+        /* Swing of 180 degrees, the twist is undefined */
+        quat.identity(outTwist);
+    } else {
+        quat.normalize(outTwist, outTwist);
+        if (outTwist[3] < 0.0) {
+            quat.scale(outTwist, outTwist, -1.0);
+        }
+    }
+
+    quat.invert(outSwing, outTwist);
+    quat.multiply(outSwing, rotation, outSwing);
+    quat.normalize(outSwing, outSwing);
+
+    const sin = outTwist[0] * axis[0] + outTwist[1] * axis[1] + outTwist[2] * axis[2];
+    return 2.0 * Math.atan2(sin, outTwist[3]);
+}
+
+/**
+ * Number of matrix squarings used by {@link fitRigidTransform}, i.e.,
+ * the power iteration is performed with the matrix raised to `2^16`.
+ */
+const FIT_SQUARINGS = 16;
+
+/**
+ * Compute the rigid transform that best maps a set of points onto another,
+ * in the least-squares sense.
+ *
+ * The rotation is solved using [Horn's quaternion method](https://doi.org/10.1364/JOSAA.4.000629),
+ * i.e., the dominant eigenvector of a 4x4 matrix built from the cross-covariance
+ * of both sets of points, found using a power iteration.
+ *
+ * @note `outRotation` is used as initial guess, and should contain the
+ *     previous solution when called every frame. This also keeps the rotation
+ *     stable when points are collinear.
+ *
+ * @param outRotation Destination rotation, and initial guess.
+ * @param outPosition Destination translation.
+ * @param sources Source points.
+ * @param targets Target points, at least as many as sources.
+ * @param count Number of points to use.
+ */
+export const fitRigidTransform = (function () {
+    const _centerA = vec3.create();
+    const _centerB = vec3.create();
+    const _covariance = new Float32Array(9);
+    const _matrix = new Float64Array(16);
+    const _product = new Float64Array(16);
+    const _vector = new Float64Array(4);
+
+    return function (
+        outRotation: quat,
+        outPosition: vec3,
+        sources: ArrayLike<vec3>,
+        targets: ArrayLike<vec3>,
+        count = sources.length
+    ) {
+        const ca = vec3.zero(_centerA);
+        const cb = vec3.zero(_centerB);
+        for (let i = 0; i < count; ++i) {
+            vec3.add(ca, ca, sources[i]);
+            vec3.add(cb, cb, targets[i]);
+        }
+        vec3.scale(ca, ca, 1.0 / count);
+        vec3.scale(cb, cb, 1.0 / count);
+
+        /* Cross-covariance, with `s[r * 3 + c] = sum(a[r] * b[c])` */
+        const s = _covariance.fill(0.0);
+        for (let i = 0; i < count; ++i) {
+            for (let r = 0; r < 3; ++r) {
+                const a = sources[i][r] - ca[r];
+                for (let c = 0; c < 3; ++c) {
+                    s[r * 3 + c] += a * (targets[i][c] - cb[c]);
+                }
+            }
+        }
+        const [xx, xy, xz, yx, yy, yz, zx, zy, zz] = s;
+
+        /* Symmetric matrix, for quaternions ordered as `w, x, y, z` */
+        const n = _matrix;
+        n[0] = xx + yy + zz;
+        n[1] = yz - zy;
+        n[2] = zx - xz;
+        n[3] = xy - yx;
+        n[4] = n[1];
+        n[5] = xx - yy - zz;
+        n[6] = xy + yx;
+        n[7] = zx + xz;
+        n[8] = n[2];
+        n[9] = n[6];
+        n[10] = -xx + yy - zz;
+        n[11] = yz + zy;
+        n[12] = n[3];
+        n[13] = n[7];
+        n[14] = n[11];
+        n[15] = -xx - yy + zz;
+
+        /* Shift the spectrum to be positive, the power iteration then
+         * converges to the largest eigenvalue */
+        let shift = 0.0;
+        for (let i = 0; i < 16; ++i) {
+            shift += n[i] * n[i];
+        }
+        shift = Math.sqrt(shift);
+        for (let i = 0; i < 4; ++i) {
+            n[i * 5] += shift;
+        }
+
+        /* Raise the matrix to a large power, normalizing to prevent overflows */
+        let degenerate = false;
+        for (let it = 0; it < FIT_SQUARINGS && !degenerate; ++it) {
+            let norm = 0.0;
+            for (let r = 0; r < 4; ++r) {
+                for (let c = 0; c < 4; ++c) {
+                    let value = 0.0;
+                    for (let k = 0; k < 4; ++k) {
+                        value += n[r * 4 + k] * n[k * 4 + c];
+                    }
+                    _product[r * 4 + c] = value;
+                    norm += value * value;
+                }
+            }
+            /* Degenerate input, e.g., all points are equal */
+            degenerate = norm < 1e-24;
+            if (degenerate) {
+                break;
+            }
+            norm = 1.0 / Math.sqrt(norm);
+            for (let k = 0; k < 16; ++k) {
+                n[k] = _product[k] * norm;
+            }
+        }
+
+        const v = _vector;
+        let length = 0.0;
+        for (let r = 0; r < 4 && !degenerate; ++r) {
+            v[r] =
+                n[r * 4] * outRotation[3] +
+                n[r * 4 + 1] * outRotation[0] +
+                n[r * 4 + 2] * outRotation[1] +
+                n[r * 4 + 3] * outRotation[2];
+            length += v[r] * v[r];
+        }
+        /* Keep the initial guess if it's orthogonal to the solution */
+        if (length > 1e-24) {
+            quat.set(outRotation, v[1], v[2], v[3], v[0]);
+            quat.normalize(outRotation, outRotation);
+        }
+
+        vec3.transformQuat(outPosition, ca, outRotation);
+        vec3.subtract(outPosition, cb, outPosition);
+    };
+})();
+
+/**
+ * Mirror a rotation across the YZ plane, i.e., from a left hand to a right hand.
+ *
+ * @note The output can alias the input.
+ *
+ * @param out The destination rotation.
+ * @param rotation The rotation to mirror.
+ * @returns The `out` parameter.
+ */
+export function mirrorRotation(out: quat, rotation: quat) {
+    return quat.set(out, rotation[0], -rotation[1], -rotation[2], rotation[3]);
+}
+
+/**
+ * Snap a normalized value to the closest of evenly spaced steps.
+ *
+ * @param value The value, in the range `[0, 1]`.
+ * @param steps Number of steps, including both ends. Values lower
+ *     than `2` leave the value untouched.
+ * @returns The snapped value.
+ */
+export function quantize(value: number, steps: number) {
+    if (steps < 2) {
+        return value;
+    }
+    const count = steps - 1;
+    return Math.round(value * count) / count;
+}
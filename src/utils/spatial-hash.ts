@@ -0,0 +1,166 @@
+import {vec3} from 'gl-matrix';
+
+/**
+ * Hash a grid cell.
+ *
+ * @note Different cells can share the same hash, queries thus
+ * return a superset of the items in range.
+ */
+function hashCell(x: number, y: number, z: number) {
+    return ((x * 73856093) ^ (y * 19349663) ^ (z * 83492791)) | 0;
+}
+
+/**
+ * Uniform grid, storing items by position.
+ *
+ * Used to speed up proximity queries on large sets of items, e.g.,
+ *
+ * ```ts
+ * const hash = new SpatialHash<Object3D>(0.5);
+ * for (const object of objects) {
+ *     hash.insert(object, object.getPositionWorld());
+ * }
+ * const nearby = hash.query([], position, 0.2);
+ * ```
+ *
+ * @note The grid doesn't track the items: once an item moves, it must be
+ * removed from its previous cell and inserted again, see {@link SpatialRegistry}.
+ */
+export class SpatialHash<T> {
+    /** Size of a cell, in **meters**. */
+    readonly cellSize: number;
+
+    /** Items, by cell hash. */
+    private _cells = new Map<number, T[]>();
+    /** Cell lists, reused across {@link clear} calls. */
+    private _pool: T[][] = [];
+
+    /**
+     * Create a new grid.
+     *
+     * @param cellSize Size of a cell, in **meters**. Should be in the
+     *     order of magnitude of the query radius.
+     */
+    constructor(cellSize = 0.5) {
+        this.cellSize = cellSize;
+    }
+
+    /** Remove all items. */
+    clear() {
+        for (const items of this._cells.values()) {
+            items.length = 0;
+            this._pool.push(items);
+        }
+        this._cells.clear();
+    }
+
+    /**
+     * Compute the key of the cell containing a position.
+     *
+     * @param position The position.
+     * @returns The cell key.
+     */
+    key(position: vec3): number {
+        return hashCell(
+            Math.floor(position[0] / this.cellSize),
+            Math.floor(position[1] / this.cellSize),
+            Math.floor(position[2] / this.cellSize)
+        );
+    }
+
+    /**
+     * Insert an item.
+     *
+     * @param item The item to insert.
+     * @param position The item position.
+     * @returns The key of the cell the item is inserted in.
+     */
+    insert(item: T, position: vec3): number {
+        return this.insertAt(item, this.key(position));
+    }
+
+    /**
+     * Insert an item in a cell.
+     *
+     * @param item The item to insert.
+     * @param key The cell key, see {@link key}.
+     * @returns The `key` parameter.
+     */
+    insertAt(item: T, key: number): number {
+        let items = this._cells.get(key);
+        if (!items) {
+            items = this._pool.pop() ?? [];
+            this._cells.set(key, items);
+        }
+        items.push(item);
+        return key;
+    }
+
+    /**
+     * Remove an item from a cell.
+     *
+     * @param item The item to remove.
+     * @param key The key of the cell the item was inserted in.
+     * @returns `true` if the item was found, `false` otherwise.
+     */
+    remove(item: T, key: number): boolean {
+        const items = this._cells.get(key);
+        const index = items ? items.indexOf(item) : -1;
+        if (!items || index === -1) {
+            return false;
+        }
+        /* Order doesn't matter, swap with the last item */
+        items[index] = items[items.length - 1];
+        items.pop();
+        if (!items.length) {
+            this._cells.delete(key);
+            this._pool.push(items);
+        }
+        return true;
+    }
+
+    /**
+     * Append the items that might be in range of a sphere.
+     *
+     * @note The result is a superset: the caller is responsible
+     * for checking the distance of each item.
+     *
+     * @param out The destination list, items are appended.
+     * @param center The sphere center.
+     * @param radius The sphere radius.
+     * @returns The `out` parameter.
+     */
+    query(out: T[], center: vec3, radius: number): T[] {
+        const size = this.cellSize;
+        const minX = Math.floor((center[0] - radius) / size);
+        const minY = Math.floor((center[1] - radius) / size);
+        const minZ = Math.floor((center[2] - radius) / size);
+        const maxX = Math.floor((center[0] + radius) / size);
+        const maxY = Math.floor((center[1] + radius) / size);
+        const maxZ = Math.floor((center[2] + radius) / size);
+
+        const start = out.length;
+        for (let x = minX; x <= maxX; ++x) {
+            for (let y = minY; y <= maxY; ++y) {
+                for (let z = minZ; z <= maxZ; ++z) {
+                    const items = this._cells.get(hashCell(x, y, z));
+                    if (!items) {
+                        continue;
+                    }
+                    for (const item of items) {
+                        /* Cells sharing a hash are visited more than once */
+                        if (out.indexOf(item, start) === -1) {
+                            out.push(item);
+                        }
+                    }
+                }
+            }
+        }
+        return out;
+    }
+
+    /** Number of non-empty cells. */
+    get cellCount() {
+        return this._cells.size;
+    }
+}
@@ -0,0 +1,290 @@
+import {vec3} from 'gl-matrix';
+
+import {SpatialHash} from './spatial-hash.js';
+
+/** Constants */
+
+/** Squared distance, in **meters²**, under which an item is considered still. */
+const RestSqrDistance = 1e-8;
+/** Number of checks an awake item must stay still before it's considered at rest. */
+const RestChecks = 30;
+
+/** Temporaries. */
+const _position = vec3.create();
+
+/**
+ * Describes the items stored in a {@link SpatialRegistry}.
+ */
+export interface SpatialRegistryDescriptor<T> {
+    /** Size, in **meters**, of the grid cells. */
+    cellSize: number;
+    /**
+     * Largest reach, in **meters**, of indexed items. Items with a larger
+     * reach are returned by every query, to keep the number of visited cells low.
+     */
+    maxIndexedReach: number;
+    /**
+     * Retrieve the position of an item.
+     *
+     * @param item The item.
+     * @param out The destination position, in **world space**.
+     * @returns The `out` parameter.
+     */
+    position(item: T, out: vec3): vec3;
+    /**
+     * Retrieve the reach of an item, i.e., the distance under which queries return it.
+     *
+     * @param item The item.
+     * @returns The reach, in **meters**, or a negative value to exclude the item from queries.
+     */
+    reach(item: T): number;
+    /**
+     * Check whether an item is expected to move on its own, e.g., a physics object.
+     *
+     * Dynamic items are checked for movement every frame.
+     *
+     * @note Optional, items are static by default.
+     *
+     * @param item The item.
+     * @returns `true` if the item is dynamic, `false` otherwise.
+     */
+    isDynamic?(item: T): boolean;
+}
+
+/** Indexing state of an item. */
+interface Entry {
+    /** Key of the cell the item is stored in, `null` if not in the grid. */
+    cell: number | null;
+    /** `true` if the item is returned by every query. */
+    unindexed: boolean;
+    /** Position, in **world space**, at which the item was last indexed. */
+    position: vec3;
+    /** Reach at which the item was last indexed. */
+    reach: number;
+    /** Number of consecutive checks without movement. */
+    stillChecks: number;
+}
+
+/**
+ * Items stored by position, to perform proximity queries on large sets without
+ * visiting every item each frame.
+ *
+ * Items are indexed in a {@link SpatialHash} once added. Afterwards, only the
+ * items that might move are checked:
+ * - Items woken up using {@link wake}, until they stay still for a few frames
+ * - Dynamic items, see {@link SpatialRegistryDescriptor.isDynamic}
+ *
+ * Static items are thus hashed once, and cost nothing until woken up.
+ *
+ * @example
+ * ```ts
+ * const registry = new SpatialRegistry<Object3D>({
+ *     cellSize: 0.5,
+ *     maxIndexedReach: 1.0,
+ *     position: (object, out) => object.getPositionWorld(out),
+ *     reach: () => 0.2,
+ * });
+ * registry.add(object);
+ *
+ * // Every frame
+ * registry.invalidate();
+ * const nearby = registry.query([], position);
+ * ```
+ */
+export class SpatialRegistry<T> {
+    /** Description of the items. */
+    private readonly _descriptor: SpatialRegistryDescriptor<T>;
+
+    /** Indexing state, by item. */
+    private _entries = new Map<T, Entry>();
+    /** Items, by position. */
+    private _hash: SpatialHash<T>;
+    /** Items with a large reach, returned by every query. */
+    private _unindexed = new Set<T>();
+    /** Items checked for movement before the next query. */
+    private _awake = new Set<T>();
+    /**
+     * Largest reach of the indexed items.
+     *
+     * @note Never shrinks: queries return a superset anyway.
+     */
+    private _maxReach = 0;
+    /** `true` if the awake items must be checked before the next query. */
+    private _dirty = true;
+
+    /**
+     * Create a new registry.
+     *
+     * @param descriptor Description of the items.
+     */
+    constructor(descriptor: SpatialRegistryDescriptor<T>) {
+        this._descriptor = descriptor;
+        this._hash = new SpatialHash<T>(descriptor.cellSize);
+    }
+
+    /**
+     * Register an item.
+     *
+     * @note The item is woken up, in case it's moved right after being added.
+     *
+     * @param item The item to add.
+     */
+    add(item: T) {
+        if (this._entries.has(item)) {
+            this.wake(item);
+            return;
+        }
+        const entry: Entry = {
+            cell: null,
+            unindexed: false,
+            position: vec3.create(),
+            reach: -1,
+            stillChecks: 0,
+        };
+        this._entries.set(item, entry);
+        this._descriptor.position(item, entry.position);
+        this._index(item, entry, this._descriptor.reach(item));
+        this._awake.add(item);
+    }
+
+    /**
+     * Unregister an item.
+     *
+     * @param item The item to remove.
+     */
+    remove(item: T) {
+        const entry = this._entries.get(item);
+        if (!entry) {
+            return;
+        }
+        this._unindex(item, entry);
+        this._entries.delete(item);
+        this._awake.delete(item);
+    }
+
+    /**
+     * Notify that an item moved, or that its reach changed.
+     *
+     * The item is checked before each query, until it stays still for a few frames.
+     *
+     * @param item The item to wake up.
+     */
+    wake(item: T) {
+        const entry = this._entries.get(item);
+        if (!entry) {
+            return;
+        }
+        entry.stillChecks = 0;
+        this._awake.add(item);
+    }
+
+    /**
+     * Mark the start of a new frame: the awake items are checked again
+     * before the next query.
+     */
+    invalidate() {
+        this._dirty = true;
+    }
+
+    /**
+     * Append the items that might be in reach of a position:
+     * - Indexed items, around the position
+     * - All items with a large reach
+     *
+     * @note The result is a superset: the caller is responsible
+     * for checking the distance of each item.
+     *
+     * @param out The destination list, items are appended.
+     * @param position The position, in **world space**.
+     * @param radius Additional search radius, in **meters**.
+     * @returns The `out` parameter.
+     */
+    query(out: T[], position: vec3, radius = 0.0): T[] {
+        if (this._dirty) {
+            this._update();
+        }
+        for (const item of this._unindexed) {
+            out.push(item);
+        }
+        return this._hash.query(out, position, this._maxReach + radius);
+    }
+
+    /** Number of registered items. */
+    get size() {
+        return this._entries.size;
+    }
+
+    /** Number of items checked for movement before the next query. */
+    get awakeCount() {
+        return this._awake.size;
+    }
+
+    /** Check the awake items, and move them to their new cell. */
+    private _update() {
+        this._dirty = false;
+        const descriptor = this._descriptor;
+        for (const item of this._awake) {
+            const entry = this._entries.get(item)!;
+
+            const position = descriptor.position(item, _position);
+            const reach = descriptor.reach(item);
+            const moved =
+                vec3.squaredDistance(position, entry.position) > RestSqrDistance ||
+                reach !== entry.reach;
+            if (moved) {
+                entry.stillChecks = 0;
+                vec3.copy(entry.position, position);
+                this._index(item, entry, reach);
+            } else if (++entry.stillChecks >= RestChecks && !descriptor.isDynamic?.(item)) {
+                /* Deleting the current item doesn't break the iteration */
+                this._awake.delete(item);
+            }
+        }
+    }
+
+    /** Store an item according to its position and reach. */
+    private _index(item: T, entry: Entry, reach: number) {
+        entry.reach = reach;
+
+        if (reach > this._descriptor.maxIndexedReach) {
+            this._removeFromCell(item, entry);
+            if (!entry.unindexed) {
+                entry.unindexed = true;
+                this._unindexed.add(item);
+            }
+            return;
+        }
+        if (entry.unindexed) {
+            entry.unindexed = false;
+            this._unindexed.delete(item);
+        }
+        if (reach < 0.0) {
+            this._removeFromCell(item, entry);
+            return;
+        }
+
+        this._maxReach = Math.max(this._maxReach, reach);
+        const cell = this._hash.key(entry.position);
+        if (cell === entry.cell) {
+            return;
+        }
+        this._removeFromCell(item, entry);
+        entry.cell = this._hash.insertAt(item, cell);
+    }
+
+    /** Remove an item from the grid and the unindexed items. */
+    private _unindex(item: T, entry: Entry) {
+        this._removeFromCell(item, entry);
+        if (entry.unindexed) {
+            entry.unindexed = false;
+            this._unindexed.delete(item);
+        }
+    }
+
+    private _removeFromCell(item: T, entry: Entry) {
+        if (entry.cell !== null) {
+            this._hash.remove(item, entry.cell);
+            entry.cell = null;
+        }
+    }
+}
@@ -6,6 +6,7 @@ import {
     InputType,
     MeshComponent,
     Object3D,
+    PhysXComponent,
     Prefab,
 } from '@wonderlandengine/api';
 
@@ -171,6 +172,23 @@ export function setComponentsActive(
     }
 }
 
+/**
+ * Switch a physx component between kinematic and dynamic.
+ *
+ * @param physx The physx component to update.
+ * @param enable `true` to make the component kinematic, `false` for dynamic.
+ */
+export function setPhysxKinematic(physx: PhysXComponent, enable: boolean) {
+    if (enable === physx.kinematic) {
+        return;
+    }
+
+    physx.kinematic = enable;
+    /* Required to change the physx object state */
+    physx.active = false;
+    physx.active = true;
+}
+
 export function componentError(component: Component, msg: string) {
     const ctor = component.constructor as ComponentConstructor;
     return `${ctor.TypeName}(${component.object.name}): ${msg}`;
@@ -0,0 +1,148 @@
+/**
+ * Gesture detection of {@link HandInteractorInput}, fed with recorded joints.
+ *
+ * Run with `npm test`.
+ */
+import assert from 'node:assert/strict';
+import {beforeEach, describe, test} from 'node:test';
+
+import {
+    HandGrabGesture,
+    HandInteractorInput,
+} from '../dist/interaction/hand-interactor-input.js';
+
+import {createComponent} from './utils.js';
+
+/** Number of joints of a WebXR hand. */
+const JointCount = 25;
+
+/** Fingertip and metacarpal joint indices, in XRHand order. */
+const Fingers = [
+    [9, 5],
+    [14, 10],
+    [19, 15],
+    [24, 20],
+];
+const ThumbTip = 4;
+
+/**
+ * Create the joints of a hand.
+ *
+ * Fingers are laid side by side, with their tip `curl` meters above their
+ * metacarpal. The thumb tip is `pinch` meters away from the index tip.
+ *
+ * @param {{pinch: number, curl: number}} pose The hand pose.
+ * @returns {Float32Array} The joint positions, flattened.
+ */
+function hand({pinch, curl}) {
+    const joints = new Float32Array(JointCount * 3);
+    Fingers.forEach(([tip, metacarpal], i) => {
+        joints[metacarpal * 3] = i * 0.02;
+        joints[tip * 3] = i * 0.02;
+        joints[tip * 3 + 1] = curl;
+    });
+    joints[ThumbTip * 3] = pinch;
+    joints[ThumbTip * 3 + 1] = curl;
+    return joints;
+}
+
+/**
+ * Feed a recording to the input.
+ *
+ * @returns {string[]} The notified events, in order.
+ */
+function play(input, recording) {
+    const events = [];
+    const onStart = () => events.push('start');
+    const onEnd = () => events.push('end');
+    input.onGrabStart.add(onStart);
+    input.onGrabEnd.add(onEnd);
+    for (const frame of recording) {
+        input.updateJoints(hand(frame));
+    }
+    input.onGrabStart.remove(onStart);
+    input.onGrabEnd.remove(onEnd);
+    return events;
+}
+
+const Open = {pinch: 0.05, curl: 0.09};
+
+describe('HandInteractorInput', () => {
+    let input;
+    beforeEach(() => {
+        input = createComponent(HandInteractorInput);
+    });
+
+    test('pinch starts below the start distance', () => {
+        input.gesture = HandGrabGesture.Pinch;
+        /* Between the start and end distances: not pinching yet */
+        assert.deepEqual(play(input, [Open, {pinch: 0.02, curl: 0.09}]), []);
+        assert.equal(input.isPinching, false);
+
+        assert.deepEqual(play(input, [{pinch: 0.01, curl: 0.09}]), ['start']);
+        assert.equal(input.isPinching, true);
+    });
+
+    test('pinch holds in the hysteresis band, and ends above the end distance', () => {
+        input.gesture = HandGrabGesture.Pinch;
+        play(input, [{pinch: 0.01, curl: 0.09}]);
+
+        assert.deepEqual(
+            play(input, [
+                {pinch: 0.02, curl: 0.09},
+                {pinch: 0.025, curl: 0.09},
+            ]),
+            []
+        );
+        assert.equal(input.isPinching, true);
+
+        assert.deepEqual(play(input, [{pinch: 0.035, curl: 0.09}]), ['end']);
+        assert.equal(input.isPinching, false);
+    });
+
+    test('fist starts below the start distance', () => {
+        input.gesture = HandGrabGesture.Fist;
+        assert.deepEqual(play(input, [Open, {pinch: 0.05, curl: 0.06}]), []);
+        assert.equal(input.isFist, false);
+
+        assert.deepEqual(play(input, [{pinch: 0.05, curl: 0.04}]), ['start']);
+        assert.equal(input.isFist, true);
+    });
+
+    test('fist holds in the hysteresis band, and ends above the end distance', () => {
+        input.gesture = HandGrabGesture.Fist;
+        play(input, [{pinch: 0.05, curl: 0.04}]);
+
+        assert.deepEqual(
+            play(input, [
+                {pinch: 0.05, curl: 0.06},
+                {pinch: 0.05, curl: 0.065},
+            ]),
+            []
+        );
+        assert.equal(input.isFist, true);
+
+        assert.deepEqual(play(input, [{pinch: 0.05, curl: 0.08}]), ['end']);
+        assert.equal(input.isFist, false);
+    });
+
+    test('pinch or fist keeps grabbing while either gesture is held', () => {
+        input.gesture = HandGrabGesture.PinchOrFist;
+        const events = play(input, [
+            Open,
+            {pinch: 0.01, curl: 0.09},
+            /* Curling while pinching doesn't grab twice */
+            {pinch: 0.01, curl: 0.04},
+            /* Opening the pinch while the fist is held */
+            {pinch: 0.05, curl: 0.04},
+            Open,
+        ]);
+        assert.deepEqual(events, ['start', 'end']);
+    });
+
+    test('gestures not selected are tracked, but do not grab', () => {
+        input.gesture = HandGrabGesture.Pinch;
+        assert.deepEqual(play(input, [{pinch: 0.05, curl: 0.04}]), []);
+        assert.equal(input.isFist, true);
+    });
+});
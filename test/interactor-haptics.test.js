@@ -0,0 +1,132 @@
+/**
+ * Pulses played by {@link InteractorHaptics}, recorded with a fake actuator.
+ *
+ * Run with `npm test`.
+ */
+import assert from 'node:assert/strict';
+import {beforeEach, describe, test} from 'node:test';
+
+import {Emitter} from '@wonderlandengine/api';
+
+import {InteractorHaptics} from '../dist/interaction/interactor-haptics.js';
+import {SnapZone} from '../dist/interaction/snap-zone.js';
+
+import {createComponent} from './utils.js';
+
+/** Interactor providing the events listened to by the haptics. */
+function createInteractor() {
+    return {
+        isDestroyed: false,
+        onHoverStart: new Emitter(),
+        onGrabStart: new Emitter(),
+        onGrabEnd: new Emitter(),
+    };
+}
+
+function createGrabbable() {
+    return {
+        isDestroyed: false,
+        active: true,
+        object: {getComponent: () => null},
+        onConstraintLimit: new Emitter(),
+    };
+}
+
+/** Compare a recorded pulse, allowing for floating point errors. */
+function assertPulse(pulse, intensity, duration) {
+    assert.ok(pulse, 'expected a pulse');
+    assert.ok(
+        Math.abs(pulse.intensity - intensity) < 1e-6,
+        `intensity: ${pulse.intensity}`
+    );
+    assert.ok(Math.abs(pulse.duration - duration) < 1e-6, `duration: ${pulse.duration}`);
+}
+
+describe('InteractorHaptics', () => {
+    let interactor;
+    let haptics;
+    let pulses;
+    beforeEach(() => {
+        interactor = createInteractor();
+        pulses = [];
+        haptics = createComponent(InteractorHaptics, {
+            interactorObject: {getComponent: () => interactor},
+            actuator: {
+                pulse: (intensity, duration) => pulses.push({intensity, duration}),
+            },
+        });
+        haptics.start();
+        haptics.onActivate();
+    });
+
+    test('plays the hover pulse', () => {
+        interactor.onHoverStart.notify(interactor, {});
+        assert.equal(pulses.length, 1);
+        assertPulse(pulses[0], haptics.hoverIntensity, haptics.hoverDuration * 1000);
+    });
+
+    test('plays the grab and release pulses', () => {
+        const grabbable = createGrabbable();
+        interactor.onGrabStart.notify(interactor, grabbable);
+        interactor.onGrabEnd.notify(interactor, grabbable);
+
+        assert.equal(pulses.length, 2);
+        assertPulse(pulses[0], haptics.grabIntensity, haptics.grabDuration * 1000);
+        assertPulse(pulses[1], haptics.releaseIntensity, haptics.releaseDuration * 1000);
+    });
+
+    test('plays the snap pulse instead of the release pulse', () => {
+        const grabbable = createGrabbable();
+        interactor.onGrabStart.notify(interactor, grabbable);
+        createComponent(SnapZone).snap(grabbable);
+        interactor.onGrabEnd.notify(interactor, grabbable);
+
+        assert.equal(pulses.length, 2);
+        assertPulse(pulses[1], haptics.snapIntensity, haptics.snapDuration * 1000);
+    });
+
+    test('plays the limit pulse while grabbing only', () => {
+        const grabbable = createGrabbable();
+        interactor.onGrabStart.notify(interactor, grabbable);
+        grabbable.onConstraintLimit.notify(grabbable);
+        assert.equal(pulses.length, 2);
+        assertPulse(pulses[1], haptics.limitIntensity, haptics.limitDuration * 1000);
+
+        interactor.onGrabEnd.notify(interactor, grabbable);
+        grabbable.onConstraintLimit.notify(grabbable);
+        assert.equal(pulses.length, 3);
+    });
+
+    test('plays the rumble every frame, until set back to zero', () => {
+        haptics.rumbleIntensity = 0.5;
+        haptics.rumble(0.8);
+        haptics.update(0.02);
+        haptics.update(0.01);
+        assert.equal(pulses.length, 2);
+        /* Pulses overlap the frames by half */
+        assertPulse(pulses[0], 0.4, 30);
+        assertPulse(pulses[1], 0.4, 15);
+
+        haptics.rumble(0.0);
+        haptics.update(0.02);
+        assert.equal(pulses.length, 2);
+    });
+
+    test('clamps the intensity, and skips disabled pulses', () => {
+        haptics.grabIntensity = 2.0;
+        haptics.releaseIntensity = 0.0;
+        const grabbable = createGrabbable();
+        interactor.onGrabStart.notify(interactor, grabbable);
+        interactor.onGrabEnd.notify(interactor, grabbable);
+
+        assert.equal(pulses.length, 1);
+        assertPulse(pulses[0], 1.0, haptics.grabDuration * 1000);
+    });
+
+    test('stops listening once deactivated', () => {
+        haptics.onDeactivate();
+        interactor.onHoverStart.notify(interactor, {});
+        interactor.onGrabStart.notify(interactor, createGrabbable());
+        assert.equal(pulses.length, 0);
+    });
+});
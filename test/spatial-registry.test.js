@@ -0,0 +1,136 @@
+/**
+ * Queries of {@link SpatialRegistry}, checked against a linear search.
+ *
+ * Run with `npm test`.
+ */
+import assert from 'node:assert/strict';
+import {beforeEach, describe, test} from 'node:test';
+
+import {vec3} from 'gl-matrix';
+
+import {SpatialRegistry} from '../dist/utils/spatial-registry.js';
+
+/** Number of still frames after which a woken up item goes back to rest. */
+const RestFrames = 30;
+
+function createRegistry() {
+    return new SpatialRegistry({
+        cellSize: 0.5,
+        maxIndexedReach: 1.0,
+        position: (item, out) => vec3.copy(out, item.position),
+        reach: (item) => item.reach,
+        isDynamic: (item) => !!item.dynamic,
+    });
+}
+
+function item(x, y, z, reach = 0.3) {
+    return {position: vec3.fromValues(x, y, z), reach};
+}
+
+/** Items in reach of a position, found by testing every item. */
+function linearSearch(items, position) {
+    return items.filter(
+        (item) => item.reach >= 0.0 && vec3.distance(item.position, position) < item.reach
+    );
+}
+
+/** Items in reach of a position, amongst the registry candidates. */
+function search(registry, position) {
+    const candidates = registry.query([], position);
+    return candidates.filter(
+        (item) => item.reach >= 0.0 && vec3.distance(item.position, position) < item.reach
+    );
+}
+
+function frame(registry) {
+    registry.invalidate();
+    registry.query([], vec3.create());
+}
+
+describe('SpatialRegistry', () => {
+    let registry;
+    beforeEach(() => {
+        registry = createRegistry();
+    });
+
+    test('finds the same items as a linear search', () => {
+        const items = [];
+        for (let x = 0; x < 10; ++x) {
+            for (let z = 0; z < 10; ++z) {
+                items.push(item(x * 0.37, (x * z) % 3, z * 0.41));
+            }
+        }
+        items.forEach((i) => registry.add(i));
+
+        for (const position of [
+            vec3.fromValues(0, 0, 0),
+            vec3.fromValues(1.1, 1.0, 2.05),
+            vec3.fromValues(3.3, 2.0, 3.7),
+        ]) {
+            assert.deepEqual(
+                new Set(search(registry, position)),
+                new Set(linearSearch(items, position))
+            );
+        }
+    });
+
+    test('only returns nearby indexed items', () => {
+        const near = item(0.1, 0, 0);
+        const far = item(20, 0, 0);
+        registry.add(near);
+        registry.add(far);
+
+        const candidates = registry.query([], vec3.create());
+        assert.ok(candidates.includes(near));
+        assert.ok(!candidates.includes(far));
+    });
+
+    test('re-indexes woken up items once moved', () => {
+        const moving = item(0, 0, 0);
+        registry.add(moving);
+        for (let i = 0; i < RestFrames; ++i) {
+            frame(registry);
+        }
+        assert.equal(registry.awakeCount, 0);
+
+        vec3.set(moving.position, 10, 0, 0);
+        registry.wake(moving);
+        registry.invalidate();
+        assert.deepEqual(search(registry, vec3.fromValues(10, 0, 0)), [moving]);
+        assert.deepEqual(search(registry, vec3.create()), []);
+    });
+
+    test('keeps checking dynamic items', () => {
+        const dynamic = item(0, 0, 0);
+        dynamic.dynamic = true;
+        registry.add(dynamic);
+        for (let i = 0; i < RestFrames; ++i) {
+            frame(registry);
+        }
+        assert.equal(registry.awakeCount, 1);
+
+        vec3.set(dynamic.position, 5, 0, 5);
+        registry.invalidate();
+        assert.deepEqual(search(registry, vec3.fromValues(5, 0, 5)), [dynamic]);
+    });
+
+    test('returns items with a large reach to every query', () => {
+        const remote = item(100, 0, 0, Number.POSITIVE_INFINITY);
+        registry.add(remote);
+        assert.ok(registry.query([], vec3.create()).includes(remote));
+    });
+
+    test('never returns excluded items', () => {
+        const excluded = item(0, 0, 0, -1.0);
+        registry.add(excluded);
+        assert.ok(!registry.query([], vec3.create()).includes(excluded));
+    });
+
+    test('forgets removed items', () => {
+        const removed = item(0, 0, 0);
+        registry.add(removed);
+        registry.remove(removed);
+        assert.equal(registry.size, 0);
+        assert.ok(!registry.query([], vec3.create()).includes(removed));
+    });
+});
@@ -0,0 +1,17 @@
+/** Scene of the components created by {@link createComponent}. */
+const DetachedScene = {_index: 0};
+
+/**
+ * Create a component outside of any engine, to test its logic.
+ *
+ * @note The component has no object: anything reaching the engine,
+ *     such as `object` or `active`, must be provided by the test.
+ *
+ * @param {typeof import('@wonderlandengine/api').Component} ctor The component class.
+ * @param {Record<string, unknown>} [properties] Properties to set.
+ * @returns The component.
+ */
+export function createComponent(ctor, properties = {}) {
+    const component = new ctor(DetachedScene);
+    return Object.assign(component, properties);
+}